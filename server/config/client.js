@@ -0,0 +1,8 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Where the web app is served; used for CORS and for links and redirects back to it
+export const clientUrl = process.env.CLIENT_URL || 'http://localhost:5173';
+
+export default clientUrl;
@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Sign-in providers, each enabled by setting its client id and secret. The generic
+// `oidc` entry accepts any OpenID Connect issuer, including a local mock provider.
+const providers = {
+  google: {
+    name: 'Google',
+    issuer: 'https://accounts.google.com',
+    clientId: process.env.GOOGLE_CLIENT_ID,
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    scope: 'openid email profile'
+  },
+  github: {
+    name: 'GitHub',
+    // GitHub is plain OAuth 2.0 without discovery, so its endpoints are listed here
+    authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+    tokenEndpoint: 'https://github.com/login/oauth/access_token',
+    userinfoEndpoint: 'https://api.github.com/user',
+    emailsEndpoint: 'https://api.github.com/user/emails',
+    clientId: process.env.GITHUB_CLIENT_ID,
+    clientSecret: process.env.GITHUB_CLIENT_SECRET,
+    scope: 'read:user user:email'
+  },
+  oidc: {
+    name: process.env.OIDC_PROVIDER_NAME || 'Single sign-on',
+    issuer: process.env.OIDC_ISSUER,
+    clientId: process.env.OIDC_CLIENT_ID,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    scope: 'openid email profile'
+  }
+};
+
+export const oauthProviders = Object.fromEntries(
+  Object.entries(providers).filter(([, provider]) =>
+    provider.clientId && (provider.issuer || provider.authorizationEndpoint)
+  )
+);
+
+export default oauthProviders;
@@ -0,0 +1,50 @@
+import { supabase } from '../config/database.js';
+import cloudinary from '../config/cloudinary.js';
+
+// How long a deleted pin can still be restored before it is purged for good
+export const PIN_UNDO_WINDOW_MS = 60 * 1000;
+
+const PURGE_INTERVAL_MS = 30 * 1000;
+
+// Permanently remove soft-deleted pins (and their images) past the undo window
+export const purgeDeletedPins = async () => {
+  try {
+    const cutoff = new Date(Date.now() - PIN_UNDO_WINDOW_MS).toISOString();
+
+    const { data: pins, error } = await supabase
+      .from('pins')
+      .select('id, image_public_id')
+      .not('deleted_at', 'is', null)
+      .lt('deleted_at', cutoff);
+
+    if (error) {
+      console.error('Purge deleted pins error:', error);
+      return;
+    }
+
+    for (const pin of pins) {
+      // Cascading deletes will handle likes, saves and comments
+      const { error: deleteError } = await supabase
+        .from('pins')
+        .delete()
+        .eq('id', pin.id);
+
+      if (deleteError) {
+        console.error('Purge pin error:', deleteError);
+        continue;
+      }
+
+      if (pin.image_public_id) {
+        try {
+          await cloudinary.uploader.destroy(pin.image_public_id);
+        } catch (destroyError) {
+          console.error('Purge pin image error:', destroyError);
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Purge deleted pins error:', error);
+  }
+};
+
+export const startPurgeJob = () => setInterval(purgeDeletedPins, PURGE_INTERVAL_MS);
@@ -0,0 +1,25 @@
+import { supabase } from '../config/database.js';
+
+// Throttling only looks back 15 minutes; keep a day of attempts for investigating abuse
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export const purgeLoginAttempts = async () => {
+  try {
+    const cutoff = new Date(Date.now() - RETENTION_MS).toISOString();
+
+    const { error } = await supabase
+      .from('login_attempts')
+      .delete()
+      .lt('created_at', cutoff);
+
+    if (error) {
+      console.error('Purge login attempts error:', error);
+    }
+  } catch (error) {
+    console.error('Purge login attempts error:', error);
+  }
+};
+
+export const startLoginAttemptPurgeJob = () => setInterval(purgeLoginAttempts, PURGE_INTERVAL_MS);
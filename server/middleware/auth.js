@@ -1,6 +1,38 @@
 import jwt from 'jsonwebtoken';
 import { supabase } from '../config/database.js';
 
+// Resolve an access token to its user. Tokens from a revoked session or a suspended
+// account are rejected even before they expire, which is what makes logout and "sign out
+// everywhere" immediate.
+export const resolveAccessToken = async (token) => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET);
+
+  if (!decoded.sessionId) {
+    return null;
+  }
+
+  const [{ data: user }, { data: session }] = await Promise.all([
+    supabase
+      .from('users')
+      .select('*')
+      .eq('id', decoded.userId)
+      .single(),
+    supabase
+      .from('sessions')
+      .select('id')
+      .eq('id', decoded.sessionId)
+      .eq('user_id', decoded.userId)
+      .is('revoked_at', null)
+      .maybeSingle()
+  ]);
+
+  if (!user || !session || user.suspended_at) {
+    return null;
+  }
+
+  return { user, sessionId: session.id };
+};
+
 export const authenticateToken = async (req, res, next) => {
   try {
     const authHeader = req.headers['authorization'];
@@ -10,23 +42,51 @@ export const authenticateToken = async (req, res, next) => {
       return res.status(401).json({ message: 'Access token required' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
-    
-    // Verify user exists in database
-    const { data: user, error } = await supabase
-      .from('users')
-      .select('*')
-      .eq('id', decoded.userId)
-      .single();
+    const resolved = await resolveAccessToken(token);
+
+    if (!resolved) {
+      return res.status(401).json({ message: 'Invalid token' });
+    }
+
+    req.user = resolved.user;
+    req.sessionId = resolved.sessionId;
+    next();
+  } catch (error) {
+    // Expired tokens are routine: the client refreshes and retries on 401
+    res.status(401).json({ message: 'Invalid or expired token' });
+  }
+};
+
+// Only let users with the given role through; use after authenticateToken
+export const requireRole = (role) => (req, res, next) => {
+  if (req.user?.role !== role) {
+    return res.status(403).json({ message: 'Not authorized' });
+  }
+  next();
+};
+
+// Attach req.user when a valid token is sent, but let anonymous requests through. A
+// token that is sent but no longer valid still gets a 401, so the client refreshes it
+// instead of silently browsing as a logged-out viewer.
+export const optionalAuth = async (req, res, next) => {
+  try {
+    const authHeader = req.headers['authorization'];
+    const token = authHeader && authHeader.split(' ')[1];
+
+    if (!token) {
+      return next();
+    }
+
+    const resolved = await resolveAccessToken(token);
 
-    if (error || !user) {
+    if (!resolved) {
       return res.status(401).json({ message: 'Invalid token' });
     }
 
-    req.user = user;
+    req.user = resolved.user;
+    req.sessionId = resolved.sessionId;
     next();
   } catch (error) {
-    console.error('Auth middleware error:', error);
-    res.status(403).json({ message: 'Invalid or expired token' });
+    res.status(401).json({ message: 'Invalid or expired token' });
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,355 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+import { authenticateToken, requireRole } from '../middleware/auth.js';
+import { revokeSessions } from '../utils/sessions.js';
+import { logModeratorAction } from '../utils/moderation.js';
+
+const router = express.Router();
+
+// Everything in here is for admins only
+router.use(authenticateToken, requireRole('admin'));
+
+const REPORT_STATUSES = ['open', 'resolved', 'dismissed'];
+
+const userSelect = 'id, username, first_name, last_name, avatar_url';
+
+const reportSelect = `
+  *,
+  reporter:users!reports_reporter_id_fkey (${userSelect}),
+  pin:pins!reports_pin_id_fkey (
+    id,
+    title,
+    image_url,
+    visibility,
+    hidden_at,
+    deleted_at,
+    users!pins_user_id_fkey (${userSelect}, suspended_at)
+  ),
+  reported_user:users!reports_reported_user_id_fkey (${userSelect}, suspended_at)
+`;
+
+const actionSelect = `
+  *,
+  moderator:users!moderation_actions_moderator_id_fkey (${userSelect}),
+  pin:pins!moderation_actions_pin_id_fkey (
+    id,
+    title,
+    image_url
+  ),
+  target_user:users!moderation_actions_target_user_id_fkey (${userSelect})
+`;
+
+// Close an open report and log who closed it. Returns false if it was already closed.
+const closeReport = async (reportId, moderatorId, status) => {
+  const { data: closed, error } = await supabase
+    .from('reports')
+    .update({
+      status,
+      resolved_by: moderatorId,
+      resolved_at: new Date().toISOString()
+    })
+    .eq('id', reportId)
+    .eq('status', 'open')
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  if (closed.length === 0) {
+    return false;
+  }
+
+  await logModeratorAction({
+    moderatorId,
+    action: status === 'resolved' ? 'resolve_report' : 'dismiss_report',
+    reportId
+  });
+  return true;
+};
+
+// Get reports by status; the open queue is oldest first
+router.get('/reports', async (req, res) => {
+  try {
+    const status = req.query.status || 'open';
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const offset = (page - 1) * limit;
+
+    if (!REPORT_STATUSES.includes(status)) {
+      return res.status(400).json({ message: 'Invalid status' });
+    }
+
+    const { data: reports, error, count } = await supabase
+      .from('reports')
+      .select(reportSelect, { count: 'exact' })
+      .eq('status', status)
+      .order('created_at', { ascending: status === 'open' })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Get reports error:', error);
+      return res.status(500).json({ message: 'Failed to fetch reports' });
+    }
+
+    res.json({
+      reports,
+      total: count || 0,
+      page,
+      hasMore: offset + reports.length < (count || 0)
+    });
+  } catch (error) {
+    console.error('Get reports error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Close a report after acting on it
+router.post('/reports/:id/resolve', async (req, res) => {
+  try {
+    if (!(await closeReport(req.params.id, req.user.id, 'resolved'))) {
+      return res.status(404).json({ message: 'Report not found or already closed' });
+    }
+
+    res.json({ message: 'Report resolved' });
+  } catch (error) {
+    console.error('Resolve report error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Close a report without acting on it
+router.post('/reports/:id/dismiss', async (req, res) => {
+  try {
+    if (!(await closeReport(req.params.id, req.user.id, 'dismissed'))) {
+      return res.status(404).json({ message: 'Report not found or already closed' });
+    }
+
+    res.json({ message: 'Report dismissed' });
+  } catch (error) {
+    console.error('Dismiss report error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Hide a pin from everyone but its owner, optionally resolving the report that led here
+router.post('/pins/:id/hide', async (req, res) => {
+  try {
+    const { reportId } = req.body;
+
+    const { data: pin, error: pinError } = await supabase
+      .from('pins')
+      .select('id, user_id, visibility, hidden_at')
+      .eq('id', req.params.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (pinError || !pin) {
+      return res.status(404).json({ message: 'Pin not found' });
+    }
+
+    if (pin.hidden_at) {
+      return res.status(400).json({ message: 'This pin is already hidden' });
+    }
+
+    // Private pins already drop out of every list, search and message preview
+    const { error } = await supabase
+      .from('pins')
+      .update({ visibility: 'private', hidden_at: new Date().toISOString() })
+      .eq('id', pin.id);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to hide pin' });
+    }
+
+    await logModeratorAction({
+      moderatorId: req.user.id,
+      action: 'hide_pin',
+      pinId: pin.id,
+      targetUserId: pin.user_id,
+      reportId: reportId || null,
+      details: { visibility: pin.visibility }
+    });
+
+    if (reportId) {
+      await closeReport(reportId, req.user.id, 'resolved');
+    }
+
+    res.json({ message: 'Pin hidden' });
+  } catch (error) {
+    console.error('Hide pin error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Restore a hidden pin to the visibility it had before
+router.post('/pins/:id/unhide', async (req, res) => {
+  try {
+    const { data: pin, error: pinError } = await supabase
+      .from('pins')
+      .select('id, user_id, hidden_at')
+      .eq('id', req.params.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (pinError || !pin) {
+      return res.status(404).json({ message: 'Pin not found' });
+    }
+
+    if (!pin.hidden_at) {
+      return res.status(400).json({ message: 'This pin isn\'t hidden' });
+    }
+
+    // The audit log remembers what the pin was set to when it was hidden
+    const { data: hideAction } = await supabase
+      .from('moderation_actions')
+      .select('details')
+      .eq('pin_id', pin.id)
+      .eq('action', 'hide_pin')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const visibility = hideAction?.details?.visibility || 'public';
+
+    const { error } = await supabase
+      .from('pins')
+      .update({ visibility, hidden_at: null })
+      .eq('id', pin.id);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to restore pin' });
+    }
+
+    await logModeratorAction({
+      moderatorId: req.user.id,
+      action: 'unhide_pin',
+      pinId: pin.id,
+      targetUserId: pin.user_id,
+      details: { visibility }
+    });
+
+    res.json({ message: 'Pin restored' });
+  } catch (error) {
+    console.error('Unhide pin error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Suspend a user and sign them out everywhere, optionally resolving a report
+router.post('/users/:id/suspend', async (req, res) => {
+  try {
+    const { reportId } = req.body;
+    const reason = (req.body.reason || '').trim();
+
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('id, role, suspended_at')
+      .eq('id', req.params.id)
+      .single();
+
+    if (userError || !user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.role === 'admin') {
+      return res.status(400).json({ message: 'Admins can\'t be suspended' });
+    }
+
+    if (user.suspended_at) {
+      return res.status(400).json({ message: 'This user is already suspended' });
+    }
+
+    const { error } = await supabase
+      .from('users')
+      .update({ suspended_at: new Date().toISOString(), suspension_reason: reason || null })
+      .eq('id', user.id);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to suspend user' });
+    }
+
+    await revokeSessions({ userId: user.id });
+
+    await logModeratorAction({
+      moderatorId: req.user.id,
+      action: 'suspend_user',
+      targetUserId: user.id,
+      reportId: reportId || null,
+      details: { reason }
+    });
+
+    if (reportId) {
+      await closeReport(reportId, req.user.id, 'resolved');
+    }
+
+    res.json({ message: 'User suspended' });
+  } catch (error) {
+    console.error('Suspend user error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Lift a suspension
+router.post('/users/:id/unsuspend', async (req, res) => {
+  try {
+    const { data: user, error } = await supabase
+      .from('users')
+      .update({ suspended_at: null, suspension_reason: null })
+      .eq('id', req.params.id)
+      .not('suspended_at', 'is', null)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to lift suspension' });
+    }
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found or not suspended' });
+    }
+
+    await logModeratorAction({
+      moderatorId: req.user.id,
+      action: 'unsuspend_user',
+      targetUserId: user.id
+    });
+
+    res.json({ message: 'Suspension lifted' });
+  } catch (error) {
+    console.error('Unsuspend user error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get the audit log of moderator actions, newest first
+router.get('/audit-log', async (req, res) => {
+  try {
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const offset = (page - 1) * limit;
+
+    const { data: actions, error, count } = await supabase
+      .from('moderation_actions')
+      .select(actionSelect, { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Get audit log error:', error);
+      return res.status(500).json({ message: 'Failed to fetch audit log' });
+    }
+
+    res.json({
+      actions,
+      total: count || 0,
+      page,
+      hasMore: offset + actions.length < (count || 0)
+    });
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,14 +1,121 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
 import { supabase } from '../config/database.js';
 import { authenticateToken } from '../middleware/auth.js';
+import {
+  REFRESH_COOKIE,
+  startSession,
+  rotateSession,
+  revokeSessions,
+  findSessionByRefreshToken,
+  clearRefreshCookie
+} from '../utils/sessions.js';
+import { issueAuthToken, consumeAuthToken } from '../utils/authTokens.js';
+import { sendMail } from '../utils/mail.js';
+import { clientUrl } from '../config/client.js';
+import {
+  ipRetryAfter,
+  accountRetryAfter,
+  recordLoginAttempt,
+  registerFailure,
+  clearFailures,
+  tooManyAttempts
+} from '../utils/loginThrottle.js';
+import {
+  generateSecret,
+  otpauthUrl,
+  verifyTotp,
+  generateRecoveryCodes,
+  getTwoFactor,
+  isTwoFactorEnabled,
+  verifySecondFactor,
+  createChallengeToken,
+  verifyChallengeToken
+} from '../utils/twoFactor.js';
 
 const router = express.Router();
 
-// Generate JWT token
-const generateToken = (userId) => {
-  return jwt.sign({ userId }, process.env.JWT_SECRET, { expiresIn: '7d' });
+const MIN_PASSWORD_LENGTH = 6;
+
+// Fields of the users row the client never needs to see
+const toAuthUser = ({ password_hash, failed_login_count, locked_until, ...user }) => user;
+
+// Every check passed: reset the failure count and start the session
+const finishLogin = async (req, res, user) => {
+  if (user.failed_login_count > 0 || user.locked_until) {
+    await clearFailures(user.id);
+  }
+  await recordLoginAttempt({ ip: req.ip, email: user.email, succeeded: true });
+
+  // Short-lived access token; the refresh token goes out as an httpOnly cookie
+  const token = await startSession(req, res, user.id);
+
+  res.json({
+    message: 'Login successful',
+    token,
+    user: toAuthUser(user)
+  });
+};
+
+// Moderators suspended this account; tell the user why instead of "Invalid credentials"
+const refuseSuspended = (res, user) =>
+  res.status(403).json({
+    message: user.suspension_reason
+      ? `Your account has been suspended: ${user.suspension_reason}`
+      : 'Your account has been suspended'
+  });
+
+// Check a code from a signed-in user before changing their two-factor settings.
+// Wrong codes count towards the lockout just like they do at login.
+const confirmSecondFactor = async (req, res) => {
+  const { code } = req.body;
+
+  const retryAfter = accountRetryAfter(req.user);
+  if (retryAfter) {
+    tooManyAttempts(res, retryAfter);
+    return false;
+  }
+
+  if (!code) {
+    res.status(400).json({ message: 'Code is required' });
+    return false;
+  }
+
+  if (!(await verifySecondFactor(req.user.id, code))) {
+    await registerFailure(req.user.id);
+    res.status(400).json({ message: 'Invalid code' });
+    return false;
+  }
+
+  return true;
+};
+
+const sendVerificationEmail = async (user) => {
+  const token = await issueAuthToken(user.id, 'email_verification');
+
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your email address',
+    text: `Hi ${user.first_name},\n\n` +
+      `Confirm the email address for your Pinterest account by opening this link:\n` +
+      `${clientUrl}/verify-email?token=${token}\n\n` +
+      `The link expires in 24 hours.`
+  });
+};
+
+const sendPasswordResetEmail = async (user) => {
+  const token = await issueAuthToken(user.id, 'password_reset');
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.first_name},\n\n` +
+      `Someone asked to reset the password for your Pinterest account. If it was you, ` +
+      `choose a new password here:\n` +
+      `${clientUrl}/reset-password?token=${token}\n\n` +
+      `The link expires in 1 hour. If you didn't ask for this, you can ignore this email.`
+  });
 };
 
 // Register user
@@ -49,7 +156,7 @@ router.post('/signup', async (req, res) => {
         password_hash: hashedPassword,
         avatar_url: `https://ui-avatars.com/api/?name=${firstName}+${lastName}&background=3b82f6&color=fff&size=200`
       }])
-      .select('id, email, username, first_name, last_name, avatar_url, created_at')
+      .select('id, email, username, first_name, last_name, avatar_url, email_verified_at, created_at')
       .single();
 
     if (error) {
@@ -57,8 +164,15 @@ router.post('/signup', async (req, res) => {
       return res.status(500).json({ message: 'Failed to create user' });
     }
 
-    // Generate token
-    const token = generateToken(newUser.id);
+    // The account works right away; a failed email can be resent from the app
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (mailError) {
+      console.error('Send verification email error:', mailError);
+    }
+
+    // Short-lived access token; the refresh token goes out as an httpOnly cookie
+    const token = await startSession(req, res, newUser.id);
 
     res.status(201).json({
       message: 'User created successfully',
@@ -80,6 +194,12 @@ router.post('/login', async (req, res) => {
       return res.status(400).json({ message: 'Email and password are required' });
     }
 
+    // Too many failures from this address, whichever accounts they tried
+    const ipWait = await ipRetryAfter(req.ip);
+    if (ipWait) {
+      return tooManyAttempts(res, ipWait);
+    }
+
     // Find user
     const { data: user, error } = await supabase
       .from('users')
@@ -87,30 +207,492 @@ router.post('/login', async (req, res) => {
       .eq('email', email)
       .single();
 
-    if (error || !user) {
+    // Accounts created through a sign-in provider have no password yet
+    if (error || !user || !user.password_hash) {
+      await recordLoginAttempt({ ip: req.ip, email, succeeded: false });
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
+    // A locked account refuses even the right password until the lockout ends
+    const accountWait = accountRetryAfter(user);
+    if (accountWait) {
+      await recordLoginAttempt({ ip: req.ip, email, succeeded: false });
+      return tooManyAttempts(res, accountWait);
+    }
+
     // Check password
     const isPasswordValid = await bcrypt.compare(password, user.password_hash);
     
     if (!isPasswordValid) {
+      await recordLoginAttempt({ ip: req.ip, email, succeeded: false });
+      await registerFailure(user.id);
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
-    // Generate token
-    const token = generateToken(user.id);
+    if (user.suspended_at) {
+      return refuseSuspended(res, user);
+    }
+
+    // The password alone isn't enough; the app asks for a code next
+    if (await isTwoFactorEnabled(user.id)) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: createChallengeToken(user.id)
+      });
+    }
+
+    await finishLogin(req, res, user);
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Second login step: a code from the authenticator app or a recovery code
+router.post('/login/2fa', async (req, res) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (!challengeToken || !code) {
+      return res.status(400).json({ message: 'Code is required' });
+    }
+
+    const ipWait = await ipRetryAfter(req.ip);
+    if (ipWait) {
+      return tooManyAttempts(res, ipWait);
+    }
+
+    const userId = verifyChallengeToken(challengeToken);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Your sign-in expired, please log in again' });
+    }
+
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    if (error || !user) {
+      return res.status(401).json({ message: 'Your sign-in expired, please log in again' });
+    }
+
+    const accountWait = accountRetryAfter(user);
+    if (accountWait) {
+      return tooManyAttempts(res, accountWait);
+    }
+
+    if (!(await verifySecondFactor(user.id, code))) {
+      await recordLoginAttempt({ ip: req.ip, email: user.email, succeeded: false });
+      await registerFailure(user.id);
+      return res.status(401).json({ message: 'Invalid code' });
+    }
+
+    // Suspended between the two steps
+    if (user.suspended_at) {
+      return refuseSuspended(res, user);
+    }
+
+    await finishLogin(req, res, user);
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Exchange the refresh cookie for a new access token, rotating the cookie
+router.post('/refresh', async (req, res) => {
+  try {
+    const refreshToken = req.cookies[REFRESH_COOKIE];
+
+    if (!refreshToken) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+
+    const result = await rotateSession(req, res, refreshToken);
+
+    if (result?.retry) {
+      return res.status(409).json({ message: 'Session was just refreshed, please retry' });
+    }
+
+    if (!result) {
+      clearRefreshCookie(res);
+      return res.status(401).json({ message: 'Session expired' });
+    }
+
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', result.userId)
+      .single();
 
-    // Return user without password
-    const { password_hash, ...userWithoutPassword } = user;
+    if (error || !user || user.suspended_at) {
+      clearRefreshCookie(res);
+      return res.status(401).json({ message: 'Session expired' });
+    }
 
     res.json({
-      message: 'Login successful',
-      token,
-      user: userWithoutPassword
+      token: result.accessToken,
+      user: toAuthUser(user)
     });
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('Refresh token error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Log out of this session
+router.post('/logout', async (req, res) => {
+  try {
+    const refreshToken = req.cookies[REFRESH_COOKIE];
+
+    if (refreshToken) {
+      const session = await findSessionByRefreshToken(refreshToken);
+      if (session) {
+        await revokeSessions({ sessionId: session.id });
+      }
+    }
+
+    clearRefreshCookie(res);
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// List the current user's active sessions, most recently used first
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const { data: sessions, error } = await supabase
+      .from('sessions')
+      .select('id, user_agent, ip_address, created_at, last_used_at')
+      .eq('user_id', req.user.id)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_used_at', { ascending: false });
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to fetch sessions' });
+    }
+
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === req.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Sign out everywhere, this session included
+router.delete('/sessions', authenticateToken, async (req, res) => {
+  try {
+    await revokeSessions({ userId: req.user.id });
+
+    clearRefreshCookie(res);
+    res.json({ message: 'Signed out of all sessions' });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Sign out a single session
+router.delete('/sessions/:sessionId', authenticateToken, async (req, res) => {
+  try {
+    await revokeSessions({ sessionId: req.params.sessionId, userId: req.user.id });
+
+    if (req.params.sessionId === req.sessionId) {
+      clearRefreshCookie(res);
+    }
+    res.json({ message: 'Session signed out' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Email a password reset link. The response is the same whether or not the address has
+// an account, so it can't be used to probe for users.
+router.post('/forgot', async (req, res) => {
+  try {
+    const email = (req.body.email || '').trim();
+
+    if (!email) {
+      return res.status(400).json({ message: 'Email is required' });
+    }
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, email, first_name')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (user) {
+      await sendPasswordResetEmail(user);
+    }
+
+    res.json({ message: 'If an account exists for that email, a reset link is on its way' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Set a new password from a reset link; every existing session is signed out
+router.post('/reset', async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({ message: 'Token and password are required' });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const userId = await consumeAuthToken(token, 'password_reset');
+
+    if (!userId) {
+      return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 12);
+
+    const { error } = await supabase
+      .from('users')
+      .update({ password_hash: passwordHash })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Reset password error:', error);
+      return res.status(500).json({ message: 'Failed to reset password' });
+    }
+
+    // Receiving the reset email also proves the address belongs to the user
+    await supabase
+      .from('users')
+      .update({ email_verified_at: new Date().toISOString() })
+      .eq('id', userId)
+      .is('email_verified_at', null);
+
+    // Proving access to the inbox also lifts any lockout
+    await clearFailures(userId);
+
+    await revokeSessions({ userId });
+    clearRefreshCookie(res);
+
+    res.json({ message: 'Password updated, please log in' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Confirm an email address from a verification link
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ message: 'Token is required' });
+    }
+
+    const userId = await consumeAuthToken(token, 'email_verification');
+
+    if (!userId) {
+      return res.status(400).json({ message: 'This verification link is invalid or has expired' });
+    }
+
+    const { error } = await supabase
+      .from('users')
+      .update({ email_verified_at: new Date().toISOString() })
+      .eq('id', userId);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to verify email' });
+    }
+
+    res.json({ message: 'Email verified' });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Send a fresh verification link to the current user
+router.post('/verify-email/resend', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.email_verified_at) {
+      return res.status(400).json({ message: 'Your email is already verified' });
+    }
+
+    await sendVerificationEmail(req.user);
+
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Two-factor status for the current user
+router.get('/2fa', authenticateToken, async (req, res) => {
+  try {
+    const twoFactor = await getTwoFactor(req.user.id);
+    const enabled = !!twoFactor?.enabled_at;
+
+    let recoveryCodesRemaining = 0;
+    if (enabled) {
+      const { count, error } = await supabase
+        .from('user_recovery_codes')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', req.user.id)
+        .is('used_at', null);
+
+      if (error) {
+        return res.status(500).json({ message: 'Failed to fetch two-factor status' });
+      }
+      recoveryCodesRemaining = count || 0;
+    }
+
+    res.json({
+      enabled,
+      enabled_at: enabled ? twoFactor.enabled_at : null,
+      recovery_codes_remaining: recoveryCodesRemaining
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Start enrolment with a new secret; nothing changes at login until it is confirmed
+router.post('/2fa/setup', authenticateToken, async (req, res) => {
+  try {
+    if (await isTwoFactorEnabled(req.user.id)) {
+      return res.status(400).json({ message: 'Two-factor authentication is already on' });
+    }
+
+    const secret = generateSecret();
+
+    const { error } = await supabase
+      .from('user_two_factor')
+      .upsert({
+        user_id: req.user.id,
+        secret,
+        enabled_at: null,
+        last_used_step: null
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Two-factor setup error:', error);
+      return res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+
+    const url = otpauthUrl(secret, req.user.email);
+
+    res.json({
+      secret,
+      otpauth_url: url,
+      qr_code: await QRCode.toDataURL(url)
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Confirm enrolment with a first code from the app and hand out recovery codes
+router.post('/2fa/enable', authenticateToken, async (req, res) => {
+  try {
+    const twoFactor = await getTwoFactor(req.user.id);
+
+    if (!twoFactor) {
+      return res.status(400).json({ message: 'Start two-factor setup first' });
+    }
+
+    if (twoFactor.enabled_at) {
+      return res.status(400).json({ message: 'Two-factor authentication is already on' });
+    }
+
+    const step = verifyTotp(twoFactor.secret, req.body.code);
+
+    if (step === null) {
+      return res.status(400).json({ message: 'That code didn\'t match, check your authenticator app and try again' });
+    }
+
+    const { error } = await supabase
+      .from('user_two_factor')
+      .update({ enabled_at: new Date().toISOString(), last_used_step: step })
+      .eq('user_id', req.user.id)
+      .eq('secret', twoFactor.secret);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to turn on two-factor authentication' });
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(req.user.id);
+
+    res.json({
+      message: 'Two-factor authentication is on',
+      recovery_codes: recoveryCodes
+    });
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Turn two-factor off; needs a current code so a stolen session can't do it
+router.post('/2fa/disable', authenticateToken, async (req, res) => {
+  try {
+    if (!(await confirmSecondFactor(req, res))) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('user_two_factor')
+      .delete()
+      .eq('user_id', req.user.id);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to turn off two-factor authentication' });
+    }
+
+    await supabase
+      .from('user_recovery_codes')
+      .delete()
+      .eq('user_id', req.user.id);
+
+    res.json({ message: 'Two-factor authentication is off' });
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Replace the recovery codes, invalidating the old set
+router.post('/2fa/recovery-codes', authenticateToken, async (req, res) => {
+  try {
+    if (!(await confirmSecondFactor(req, res))) {
+      return;
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(req.user.id);
+
+    res.json({
+      message: 'New recovery codes generated',
+      recovery_codes: recoveryCodes
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
@@ -118,8 +700,7 @@ router.post('/login', async (req, res) => {
 // Get current user
 router.get('/me', authenticateToken, async (req, res) => {
   try {
-    const { password_hash, ...userWithoutPassword } = req.user;
-    res.json({ user: userWithoutPassword });
+    res.json({ user: toAuthUser(req.user) });
   } catch (error) {
     console.error('Get user error:', error);
     res.status(500).json({ message: 'Server error' });
@@ -0,0 +1,297 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+import { authenticateToken, optionalAuth } from '../middleware/auth.js';
+import { pinFeedSelect, withViewerState, getPinAudience, visiblePinsFilter } from '../utils/pins.js';
+
+const router = express.Router();
+
+// Load a board and check that the current user owns it
+const findOwnedBoard = async (boardId, userId) => {
+  const { data: board, error } = await supabase
+    .from('boards')
+    .select('id, user_id')
+    .eq('id', boardId)
+    .single();
+
+  if (error || !board) {
+    return { status: 404, message: 'Board not found' };
+  }
+
+  if (board.user_id !== userId) {
+    return { status: 403, message: 'Not authorized to modify this board' };
+  }
+
+  return { board };
+};
+
+// Secret boards look the same as missing ones to everyone but their owner
+const isBoardHidden = (board, viewerId) => board.is_secret && board.user_id !== viewerId;
+
+// Create board
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    if ((req.body.name !== undefined && typeof req.body.name !== 'string') ||
+        (req.body.description !== undefined && typeof req.body.description !== 'string')) {
+      return res.status(400).json({ message: 'Board name and description must be text' });
+    }
+
+    const name = (req.body.name || '').trim();
+    const description = (req.body.description || '').trim();
+    const isSecret = req.body.isSecret === true;
+
+    if (!name) {
+      return res.status(400).json({ message: 'Board name is required' });
+    }
+
+    // New boards go to the end of the owner's board list
+    const { count } = await supabase
+      .from('boards')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', req.user.id);
+
+    const { data: board, error } = await supabase
+      .from('boards')
+      .insert([{
+        name,
+        description,
+        is_secret: isSecret,
+        user_id: req.user.id,
+        position: count || 0
+      }])
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(400).json({ message: 'You already have a board with that name' });
+      }
+      console.error('Create board error:', error);
+      return res.status(500).json({ message: 'Failed to create board' });
+    }
+
+    res.status(201).json({
+      message: 'Board created successfully',
+      board: {
+        ...board,
+        pins_count: 0,
+        cover_images: []
+      }
+    });
+  } catch (error) {
+    console.error('Create board error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Reorder boards
+router.put('/reorder', authenticateToken, async (req, res) => {
+  try {
+    const { boardIds } = req.body;
+
+    if (!Array.isArray(boardIds) || boardIds.length === 0) {
+      return res.status(400).json({ message: 'Board order is required' });
+    }
+
+    // Make sure every board in the new order belongs to the current user
+    const { data: boards, error: boardsError } = await supabase
+      .from('boards')
+      .select('id')
+      .eq('user_id', req.user.id)
+      .in('id', boardIds);
+
+    if (boardsError) {
+      return res.status(500).json({ message: 'Failed to reorder boards' });
+    }
+
+    if (boards.length !== new Set(boardIds).size) {
+      return res.status(403).json({ message: 'Not authorized to modify these boards' });
+    }
+
+    const results = await Promise.all(
+      boardIds.map((boardId, position) =>
+        supabase
+          .from('boards')
+          .update({ position })
+          .eq('id', boardId)
+      )
+    );
+
+    if (results.some(result => result.error)) {
+      return res.status(500).json({ message: 'Failed to reorder boards' });
+    }
+
+    res.json({ message: 'Boards reordered' });
+  } catch (error) {
+    console.error('Reorder boards error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get single board
+router.get('/:id', optionalAuth, async (req, res) => {
+  try {
+    const { data: board, error } = await supabase
+      .from('boards')
+      .select(`
+        *,
+        users!boards_user_id_fkey (
+          id,
+          username,
+          first_name,
+          last_name,
+          avatar_url
+        )
+      `)
+      .eq('id', req.params.id)
+      .single();
+
+    if (error || !board || isBoardHidden(board, req.user?.id)) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+
+    // Count the same pins the board's pin list shows
+    const { count: pinsCount, error: countError } = await supabase
+      .from('pin_saves')
+      .select('pins!pin_saves_pin_id_fkey!inner(id)', { count: 'exact', head: true })
+      .eq('board_id', board.id)
+      .is('pins.deleted_at', null)
+      .or(visiblePinsFilter(await getPinAudience(req.user?.id)), { referencedTable: 'pins' });
+
+    if (countError) {
+      console.error('Count board pins error:', countError);
+      return res.status(500).json({ message: 'Failed to fetch board' });
+    }
+
+    res.json({
+      ...board,
+      pins_count: pinsCount || 0
+    });
+  } catch (error) {
+    console.error('Get board error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get board's pins
+router.get('/:id/pins', optionalAuth, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const offset = (page - 1) * limit;
+
+    const { data: board, error: boardError } = await supabase
+      .from('boards')
+      .select('id, user_id, is_secret')
+      .eq('id', req.params.id)
+      .single();
+
+    if (boardError || !board || isBoardHidden(board, req.user?.id)) {
+      return res.status(404).json({ message: 'Board not found' });
+    }
+
+    const { data: savedPins, error } = await supabase
+      .from('pin_saves')
+      .select(`
+        pins!pin_saves_pin_id_fkey!inner (${pinFeedSelect})
+      `)
+      .eq('board_id', req.params.id)
+      .is('pins.deleted_at', null)
+      .or(visiblePinsFilter(await getPinAudience(req.user?.id)), { referencedTable: 'pins' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to fetch board pins' });
+    }
+
+    const pins = await withViewerState(savedPins.map(save => save.pins), req.user?.id);
+
+    res.json({
+      pins,
+      page,
+      hasMore: savedPins.length === limit
+    });
+  } catch (error) {
+    console.error('Get board pins error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Rename board / update description
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { status, message } = await findOwnedBoard(req.params.id, req.user.id);
+    if (status) {
+      return res.status(status).json({ message });
+    }
+
+    const { name: rawName, description, isSecret } = req.body;
+
+    if ((rawName !== undefined && typeof rawName !== 'string') ||
+        (description !== undefined && typeof description !== 'string')) {
+      return res.status(400).json({ message: 'Board name and description must be text' });
+    }
+
+    const updates = {};
+    if (rawName !== undefined) {
+      const name = rawName.trim();
+      if (!name) {
+        return res.status(400).json({ message: 'Board name is required' });
+      }
+      updates.name = name;
+    }
+    if (description !== undefined) {
+      updates.description = description.trim();
+    }
+    if (isSecret !== undefined) {
+      updates.is_secret = isSecret === true;
+    }
+
+    const { data: board, error } = await supabase
+      .from('boards')
+      .update(updates)
+      .eq('id', req.params.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(400).json({ message: 'You already have a board with that name' });
+      }
+      console.error('Update board error:', error);
+      return res.status(500).json({ message: 'Failed to update board' });
+    }
+
+    res.json({ message: 'Board updated successfully', board });
+  } catch (error) {
+    console.error('Update board error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete board
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { status, message } = await findOwnedBoard(req.params.id, req.user.id);
+    if (status) {
+      return res.status(status).json({ message });
+    }
+
+    // Saves on this board fall back to unorganized (board_id is set to null)
+    const { error } = await supabase
+      .from('boards')
+      .delete()
+      .eq('id', req.params.id);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to delete board' });
+    }
+
+    res.json({ message: 'Board deleted successfully' });
+  } catch (error) {
+    console.error('Delete board error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
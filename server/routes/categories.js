@@ -0,0 +1,78 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+
+const router = express.Router();
+
+const categorySelect = `
+  *,
+  pins!pins_category_fkey (
+    count
+  ),
+  covers:pins!pins_category_fkey (
+    image_url
+  )
+`;
+
+// Count and cover image from the category's live public pins
+const withCounts = (category) => ({
+  ...category,
+  pins_count: category.pins[0]?.count || 0,
+  cover_image_url: category.covers[0]?.image_url || null,
+  pins: undefined,
+  covers: undefined
+});
+
+// Get all categories
+router.get('/', async (req, res) => {
+  try {
+    const { data: categories, error } = await supabase
+      .from('categories')
+      .select(categorySelect)
+      .is('pins.deleted_at', null)
+      .eq('pins.visibility', 'public')
+      .is('covers.deleted_at', null)
+      .eq('covers.visibility', 'public')
+      .order('position', { ascending: true })
+      .order('name', { ascending: true })
+      .order('created_at', { ascending: false, referencedTable: 'covers' })
+      .limit(1, { referencedTable: 'covers' });
+
+    if (error) {
+      console.error('Get categories error:', error);
+      return res.status(500).json({ message: 'Failed to fetch categories' });
+    }
+
+    res.json({ categories: categories.map(withCounts) });
+  } catch (error) {
+    console.error('Get categories error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get single category
+router.get('/:slug', async (req, res) => {
+  try {
+    const { data: category, error } = await supabase
+      .from('categories')
+      .select(categorySelect)
+      .eq('slug', req.params.slug)
+      .is('pins.deleted_at', null)
+      .eq('pins.visibility', 'public')
+      .is('covers.deleted_at', null)
+      .eq('covers.visibility', 'public')
+      .order('created_at', { ascending: false, referencedTable: 'covers' })
+      .limit(1, { referencedTable: 'covers' })
+      .single();
+
+    if (error || !category) {
+      return res.status(404).json({ message: 'Category not found' });
+    }
+
+    res.json(withCounts(category));
+  } catch (error) {
+    console.error('Get category error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,270 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+import { authenticateToken, optionalAuth } from '../middleware/auth.js';
+import { createNotification } from '../utils/notifications.js';
+import { canViewPin } from '../utils/pins.js';
+
+// Mounted under /api/pins/:id/comments
+const router = express.Router({ mergeParams: true });
+
+const MAX_COMMENT_LENGTH = 1000;
+
+const commentSelect = `
+  *,
+  users!pin_comments_user_id_fkey (
+    id,
+    username,
+    first_name,
+    last_name,
+    avatar_url
+  )
+`;
+
+// Load a comment on this pin together with the pin's owner
+const findComment = async (pinId, commentId) => {
+  const { data: comment, error } = await supabase
+    .from('pin_comments')
+    .select(`
+      id,
+      user_id,
+      pins!pin_comments_pin_id_fkey (
+        user_id
+      )
+    `)
+    .eq('id', commentId)
+    .eq('pin_id', pinId)
+    .single();
+
+  if (error || !comment) {
+    return null;
+  }
+
+  return comment;
+};
+
+// Get comment threads for a pin, newest thread first
+router.get('/', optionalAuth, async (req, res) => {
+  try {
+    const pinId = req.params.id;
+
+    const { data: pin, error: pinError } = await supabase
+      .from('pins')
+      .select('id, user_id, visibility')
+      .eq('id', pinId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pinError || !pin || !(await canViewPin(pin, req.user?.id))) {
+      return res.status(404).json({ message: 'Pin not found' });
+    }
+
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 10, 50);
+    const offset = (page - 1) * limit;
+
+    const { data: threads, error, count } = await supabase
+      .from('pin_comments')
+      .select(commentSelect, { count: 'exact' })
+      .eq('pin_id', pinId)
+      .is('parent_id', null)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Get comments error:', error);
+      return res.status(500).json({ message: 'Failed to fetch comments' });
+    }
+
+    // Fetch every reply in these threads, oldest first
+    let replies = [];
+    if (threads.length > 0) {
+      const { data, error: repliesError } = await supabase
+        .from('pin_comments')
+        .select(commentSelect)
+        .in('root_id', threads.map(thread => thread.id))
+        .order('created_at', { ascending: true });
+
+      if (repliesError) {
+        console.error('Get replies error:', repliesError);
+        return res.status(500).json({ message: 'Failed to fetch comments' });
+      }
+      replies = data;
+    }
+
+    res.json({
+      comments: threads.map(thread => ({
+        ...thread,
+        replies: replies.filter(reply => reply.root_id === thread.id)
+      })),
+      total: count || 0,
+      page,
+      hasMore: offset + threads.length < (count || 0)
+    });
+  } catch (error) {
+    console.error('Get comments error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create comment or reply
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const pinId = req.params.id;
+    const body = (req.body.body || '').trim();
+    const parentId = req.body.parentId || null;
+
+    if (!body) {
+      return res.status(400).json({ message: 'Comment cannot be empty' });
+    }
+
+    if (body.length > MAX_COMMENT_LENGTH) {
+      return res.status(400).json({ message: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` });
+    }
+
+    // Check if pin exists and the user can see it
+    const { data: pin, error: pinError } = await supabase
+      .from('pins')
+      .select('id, user_id, visibility')
+      .eq('id', pinId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pinError || !pin || !(await canViewPin(pin, req.user.id))) {
+      return res.status(404).json({ message: 'Pin not found' });
+    }
+
+    // Replies inherit the thread of the comment they answer
+    let rootId = null;
+    let parent = null;
+    if (parentId) {
+      const { data, error: parentError } = await supabase
+        .from('pin_comments')
+        .select('id, root_id, user_id')
+        .eq('id', parentId)
+        .eq('pin_id', pinId)
+        .single();
+
+      if (parentError || !data) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+      parent = data;
+      rootId = parent.root_id || parent.id;
+    }
+
+    const { data: comment, error } = await supabase
+      .from('pin_comments')
+      .insert([{
+        pin_id: pinId,
+        user_id: req.user.id,
+        parent_id: parentId,
+        root_id: rootId,
+        body
+      }])
+      .select(commentSelect)
+      .single();
+
+    if (error) {
+      console.error('Create comment error:', error);
+      return res.status(500).json({ message: 'Failed to post comment' });
+    }
+
+    // The pin owner hears about every comment; a reply also notifies whoever it answers,
+    // unless the pin has since been hidden from them
+    if (parent && parent.user_id !== pin.user_id && await canViewPin(pin, parent.user_id)) {
+      await createNotification({
+        recipientId: parent.user_id,
+        actorId: req.user.id,
+        type: 'reply',
+        pinId,
+        commentId: comment.id
+      });
+    }
+    await createNotification({
+      recipientId: pin.user_id,
+      actorId: req.user.id,
+      type: parent && parent.user_id === pin.user_id ? 'reply' : 'comment',
+      pinId,
+      commentId: comment.id
+    });
+
+    res.status(201).json({
+      message: 'Comment posted',
+      comment: { ...comment, replies: [] }
+    });
+  } catch (error) {
+    console.error('Create comment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Edit comment
+router.put('/:commentId', authenticateToken, async (req, res) => {
+  try {
+    const body = (req.body.body || '').trim();
+
+    if (!body) {
+      return res.status(400).json({ message: 'Comment cannot be empty' });
+    }
+
+    if (body.length > MAX_COMMENT_LENGTH) {
+      return res.status(400).json({ message: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` });
+    }
+
+    const existing = await findComment(req.params.id, req.params.commentId);
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    if (existing.user_id !== req.user.id) {
+      return res.status(403).json({ message: 'Not authorized to edit this comment' });
+    }
+
+    const { data: comment, error } = await supabase
+      .from('pin_comments')
+      .update({ body })
+      .eq('id', existing.id)
+      .select(commentSelect)
+      .single();
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to update comment' });
+    }
+
+    res.json({ message: 'Comment updated', comment });
+  } catch (error) {
+    console.error('Update comment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete comment (author or pin owner); replies are removed with it
+router.delete('/:commentId', authenticateToken, async (req, res) => {
+  try {
+    const existing = await findComment(req.params.id, req.params.commentId);
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    if (existing.user_id !== req.user.id && existing.pins.user_id !== req.user.id) {
+      return res.status(403).json({ message: 'Not authorized to delete this comment' });
+    }
+
+    const { error } = await supabase
+      .from('pin_comments')
+      .delete()
+      .eq('id', existing.id);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to delete comment' });
+    }
+
+    res.json({ message: 'Comment deleted' });
+  } catch (error) {
+    console.error('Delete comment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,355 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { decodeCursor, applyCursor, cursorPage } from '../utils/cursor.js';
+import { publishToUser } from '../utils/realtime.js';
+import { canViewPin } from '../utils/pins.js';
+import { isBlockedBetween } from '../utils/blocks.js';
+
+const router = express.Router();
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MESSAGES_PAGE_SIZE = 30;
+
+const userSelect = `
+  id,
+  username,
+  first_name,
+  last_name,
+  avatar_url
+`;
+
+// `me` narrows the list to the viewer's conversations and carries their read state
+const conversationSelect = `
+  id,
+  last_message_at,
+  created_at,
+  me:conversation_participants!inner (
+    user_id,
+    unread_count,
+    last_read_at
+  ),
+  participants:conversation_participants (
+    users (${userSelect})
+  ),
+  last_message:messages!conversations_last_message_id_fkey (
+    id,
+    sender_id,
+    body,
+    pin_id,
+    created_at
+  )
+`;
+
+const messageSelect = `
+  *,
+  pins (
+    id,
+    title,
+    image_url,
+    visibility,
+    deleted_at
+  )
+`;
+
+// Two people share one conversation, whoever starts it
+const directKey = (userId, otherUserId) => [userId, otherUserId].sort().join(':');
+
+const formatConversation = (conversation, viewerId) => ({
+  id: conversation.id,
+  other_user: conversation.participants
+    .map(participant => participant.users)
+    .find(participant => participant.id !== viewerId) || null,
+  last_message: conversation.last_message,
+  last_message_at: conversation.last_message_at,
+  unread_count: conversation.me[0]?.unread_count || 0
+});
+
+// Pins deleted or made non-public after they were sent show up as unavailable
+const formatMessage = ({ pins, ...message }) => ({
+  ...message,
+  pin: pins && !pins.deleted_at && pins.visibility === 'public'
+    ? { id: pins.id, title: pins.title, image_url: pins.image_url }
+    : null
+});
+
+const findConversation = async (conversationId, viewerId) => {
+  const { data: conversation, error } = await supabase
+    .from('conversations')
+    .select(conversationSelect)
+    .eq('id', conversationId)
+    .eq('me.user_id', viewerId)
+    .single();
+
+  if (error || !conversation) {
+    return null;
+  }
+
+  return conversation;
+};
+
+// Get the current user's conversations, most recent message first
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const offset = (page - 1) * limit;
+
+    const { data: conversations, error } = await supabase
+      .from('conversations')
+      .select(conversationSelect)
+      .eq('me.user_id', req.user.id)
+      .not('last_message_id', 'is', null)
+      .order('last_message_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Get conversations error:', error);
+      return res.status(500).json({ message: 'Failed to fetch conversations' });
+    }
+
+    res.json({
+      conversations: conversations.map(conversation => formatConversation(conversation, req.user.id)),
+      page,
+      hasMore: conversations.length === limit
+    });
+  } catch (error) {
+    console.error('Get conversations error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get the number of conversations with unread messages
+router.get('/unread-count', authenticateToken, async (req, res) => {
+  try {
+    const { count, error } = await supabase
+      .from('conversation_participants')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', req.user.id)
+      .gt('unread_count', 0);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to fetch unread count' });
+    }
+
+    res.json({ count: count || 0 });
+  } catch (error) {
+    console.error('Get unread conversations error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Open the conversation with another user, starting it if needed
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({ message: 'Recipient is required' });
+    }
+
+    if (userId === req.user.id) {
+      return res.status(400).json({ message: 'You cannot message yourself' });
+    }
+
+    const { data: recipient, error: recipientError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('id', userId)
+      .single();
+
+    if (recipientError || !recipient) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (await isBlockedBetween(req.user.id, recipient.id)) {
+      return res.status(403).json({ message: 'You can\'t message this user' });
+    }
+
+    // Upserting on the key returns the existing row when both users already talk
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .upsert({ direct_key: directKey(req.user.id, userId) }, { onConflict: 'direct_key' })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Create conversation error:', error);
+      return res.status(500).json({ message: 'Failed to start conversation' });
+    }
+
+    const { error: participantsError } = await supabase
+      .from('conversation_participants')
+      .upsert([
+        { conversation_id: conversation.id, user_id: req.user.id },
+        { conversation_id: conversation.id, user_id: userId }
+      ], { onConflict: 'conversation_id,user_id', ignoreDuplicates: true });
+
+    if (participantsError) {
+      console.error('Add participants error:', participantsError);
+      return res.status(500).json({ message: 'Failed to start conversation' });
+    }
+
+    const created = await findConversation(conversation.id, req.user.id);
+
+    res.json({ conversation: formatConversation(created, req.user.id) });
+  } catch (error) {
+    console.error('Create conversation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get a single conversation
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    const conversation = await findConversation(req.params.id, req.user.id);
+
+    if (!conversation) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    res.json({ conversation: formatConversation(conversation, req.user.id) });
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get messages in a conversation, newest first
+router.get('/:id/messages', authenticateToken, async (req, res) => {
+  try {
+    const cursor = req.query.cursor ? decodeCursor(req.query.cursor) : null;
+
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    const conversation = await findConversation(req.params.id, req.user.id);
+
+    if (!conversation) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    const query = supabase
+      .from('messages')
+      .select(messageSelect)
+      .eq('conversation_id', conversation.id);
+
+    const { data: messages, error } = await applyCursor(query, cursor, MESSAGES_PAGE_SIZE);
+
+    if (error) {
+      console.error('Get messages error:', error);
+      return res.status(500).json({ message: 'Failed to fetch messages' });
+    }
+
+    const { rows, nextCursor, hasMore } = cursorPage(messages, MESSAGES_PAGE_SIZE);
+
+    res.json({
+      messages: rows.map(formatMessage),
+      nextCursor,
+      hasMore
+    });
+  } catch (error) {
+    console.error('Get messages error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Send a message, optionally with a pin attached
+router.post('/:id/messages', authenticateToken, async (req, res) => {
+  try {
+    const body = (req.body.body || '').trim();
+    const pinId = req.body.pinId || null;
+
+    if (!body && !pinId) {
+      return res.status(400).json({ message: 'Message cannot be empty' });
+    }
+
+    if (body.length > MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({ message: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` });
+    }
+
+    const conversation = await findConversation(req.params.id, req.user.id);
+
+    if (!conversation) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    // Conversations started before a block stay readable but can't continue
+    const otherUser = formatConversation(conversation, req.user.id).other_user;
+    if (otherUser && await isBlockedBetween(req.user.id, otherUser.id)) {
+      return res.status(403).json({ message: 'You can\'t message this user' });
+    }
+
+    if (pinId) {
+      const { data: pin, error: pinError } = await supabase
+        .from('pins')
+        .select('id, user_id, visibility')
+        .eq('id', pinId)
+        .is('deleted_at', null)
+        .single();
+
+      if (pinError || !pin || !(await canViewPin(pin, req.user.id))) {
+        return res.status(404).json({ message: 'Pin not found' });
+      }
+
+      // The other person may not be allowed to see anything else
+      if (pin.visibility !== 'public') {
+        return res.status(400).json({ message: 'Only public Pins can be sent' });
+      }
+    }
+
+    const { data: message, error } = await supabase
+      .from('messages')
+      .insert([{
+        conversation_id: conversation.id,
+        sender_id: req.user.id,
+        body,
+        pin_id: pinId
+      }])
+      .select(messageSelect)
+      .single();
+
+    if (error) {
+      console.error('Send message error:', error);
+      return res.status(500).json({ message: 'Failed to send message' });
+    }
+
+    const formatted = formatMessage(message);
+
+    // Both sides update live, including the sender's other tabs
+    for (const participant of conversation.participants) {
+      publishToUser(participant.users.id, 'message', {
+        conversationId: conversation.id,
+        message: formatted
+      });
+    }
+
+    res.status(201).json({ message: formatted });
+  } catch (error) {
+    console.error('Send message error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Mark a conversation as read
+router.post('/:id/read', authenticateToken, async (req, res) => {
+  try {
+    const { error } = await supabase
+      .from('conversation_participants')
+      .update({ unread_count: 0, last_read_at: new Date().toISOString() })
+      .eq('conversation_id', req.params.id)
+      .eq('user_id', req.user.id);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to mark conversation as read' });
+    }
+
+    res.json({ message: 'Conversation marked as read' });
+  } catch (error) {
+    console.error('Mark conversation read error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,84 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+import { resolveAccessToken } from '../middleware/auth.js';
+import { openConnection, getConnection, watchPins, MAX_WATCHED_PINS } from '../utils/realtime.js';
+import { getPinAudience, visiblePinsFilter } from '../utils/pins.js';
+
+const router = express.Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Open a server-sent event stream. EventSource can't send headers, so the token (if
+// any) comes as a query parameter; without one the stream only carries pin updates.
+router.get('/', async (req, res) => {
+  let userId = null;
+  let sessionId = null;
+
+  if (req.query.token) {
+    try {
+      const resolved = await resolveAccessToken(req.query.token);
+      if (!resolved) {
+        return res.status(401).json({ message: 'Invalid token' });
+      }
+      userId = resolved.user.id;
+      sessionId = resolved.sessionId;
+    } catch (error) {
+      return res.status(401).json({ message: 'Invalid or expired token' });
+    }
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  openConnection(res, userId, sessionId);
+});
+
+// Set which pins a stream receives engagement updates for. Only pins the stream's
+// viewer can see are kept; the rest are dropped without an error.
+router.put('/:connectionId/pins', async (req, res) => {
+  try {
+    const connection = getConnection(req.params.connectionId);
+
+    if (!connection) {
+      return res.status(404).json({ message: 'Connection not found' });
+    }
+
+    const pinIds = (Array.isArray(req.body.pinIds) ? req.body.pinIds.map(String) : [])
+      .filter(pinId => UUID_PATTERN.test(pinId))
+      .slice(0, MAX_WATCHED_PINS);
+
+    let visibleIds = [];
+
+    if (pinIds.length > 0) {
+      const { data: pins, error } = await supabase
+        .from('pins')
+        .select('id')
+        .in('id', pinIds)
+        .is('deleted_at', null)
+        .or(visiblePinsFilter(await getPinAudience(connection.userId)));
+
+      if (error) {
+        console.error('Update subscription error:', error);
+        return res.status(500).json({ message: 'Failed to update subscription' });
+      }
+
+      visibleIds = pins.map(pin => pin.id);
+    }
+
+    // The stream may have closed while the pins were being checked
+    if (!watchPins(req.params.connectionId, visibleIds)) {
+      return res.status(404).json({ message: 'Connection not found' });
+    }
+
+    res.json({ message: 'Subscription updated' });
+  } catch (error) {
+    console.error('Update subscription error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
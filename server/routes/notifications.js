@@ -0,0 +1,142 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { encodeCursor, decodeCursor } from '../utils/cursor.js';
+import { getPinAudience, visiblePinsFilter } from '../utils/pins.js';
+
+const router = express.Router();
+
+// Groups returned per page
+const NOTIFICATION_GROUPS_PAGE_SIZE = 20;
+// Actors shown per group ("Ana, Ben and 3 others")
+const MAX_GROUP_ACTORS = 3;
+
+// Get grouped notifications for the current user, newest first. Events about the same
+// pin (or all new followers) are grouped in the database, so a group is only ever on
+// one page.
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const cursor = req.query.cursor ? decodeCursor(req.query.cursor) : null;
+
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    const { data: groupRows, error } = await supabase.rpc('notification_groups', {
+      recipient: req.user.id,
+      before_at: cursor?.createdAt || null,
+      before_id: cursor?.id || null,
+      result_limit: NOTIFICATION_GROUPS_PAGE_SIZE + 1
+    });
+
+    if (error) {
+      console.error('Get notifications error:', error);
+      return res.status(500).json({ message: 'Failed to fetch notifications' });
+    }
+
+    const hasMore = groupRows.length > NOTIFICATION_GROUPS_PAGE_SIZE;
+    const pageRows = groupRows.slice(0, NOTIFICATION_GROUPS_PAGE_SIZE);
+    const lastRow = pageRows[pageRows.length - 1];
+
+    const actorIds = [...new Set(pageRows.flatMap(row => row.actor_ids.slice(0, MAX_GROUP_ACTORS)))];
+    const pinIds = [...new Set(pageRows.map(row => row.pin_id).filter(Boolean))];
+
+    // Pins that were deleted, or that the recipient can no longer see, take their
+    // notifications with them
+    const [{ data: actors, error: actorsError }, { data: pins, error: pinsError }] = await Promise.all([
+      supabase
+        .from('users')
+        .select('id, username, first_name, last_name, avatar_url')
+        .in('id', actorIds),
+      supabase
+        .from('pins')
+        .select('id, title, image_url')
+        .in('id', pinIds)
+        .is('deleted_at', null)
+        .or(visiblePinsFilter(await getPinAudience(req.user.id)))
+    ]);
+
+    if (actorsError || pinsError) {
+      console.error('Get notifications error:', actorsError || pinsError);
+      return res.status(500).json({ message: 'Failed to fetch notifications' });
+    }
+
+    const actorsById = new Map(actors.map(actor => [actor.id, actor]));
+    const pinsById = new Map(pins.map(pin => [pin.id, pin]));
+
+    const groups = pageRows
+      .filter(row => !row.pin_id || pinsById.has(row.pin_id))
+      .map(row => ({
+        id: row.group_key,
+        type: row.type,
+        pin: row.pin_id ? pinsById.get(row.pin_id) : null,
+        actors: row.actor_ids
+          .slice(0, MAX_GROUP_ACTORS)
+          .map(actorId => actorsById.get(actorId))
+          .filter(Boolean),
+        actors_count: row.actors_count,
+        latest_at: row.latest_at,
+        unread: row.unread,
+        notification_ids: row.notification_ids
+      }));
+
+    res.json({
+      groups,
+      nextCursor: hasMore ? encodeCursor({ created_at: lastRow.latest_at, id: lastRow.latest_id }) : null,
+      hasMore
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get the number of unread notifications
+router.get('/unread-count', authenticateToken, async (req, res) => {
+  try {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('*', { count: 'exact', head: true })
+      .eq('recipient_id', req.user.id)
+      .is('read_at', null);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to fetch unread count' });
+    }
+
+    res.json({ count: count || 0 });
+  } catch (error) {
+    console.error('Get unread count error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Mark notifications as read; all of them when no ids are given
+router.post('/read', authenticateToken, async (req, res) => {
+  try {
+    const ids = Array.isArray(req.body.ids) ? req.body.ids : null;
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('recipient_id', req.user.id)
+      .is('read_at', null);
+
+    if (ids) {
+      query = query.in('id', ids);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to mark notifications as read' });
+    }
+
+    res.json({ message: 'Notifications marked as read' });
+  } catch (error) {
+    console.error('Mark notifications read error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
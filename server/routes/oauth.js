@@ -0,0 +1,249 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+import { oauthProviders } from '../config/oauth.js';
+import { clientUrl } from '../config/client.js';
+import { randomToken, buildAuthorizationUrl, fetchOAuthProfile } from '../utils/oauth.js';
+import { startSession } from '../utils/sessions.js';
+import { isTwoFactorEnabled, createChallengeToken } from '../utils/twoFactor.js';
+
+// Mounted under /api/auth/oauth
+const router = express.Router();
+
+const STATE_COOKIE = 'oauth_state';
+
+const stateCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  // Lax still sends it on the provider's top-level redirect back to the callback
+  sameSite: 'lax',
+  path: '/api/auth/oauth'
+};
+
+// Raised for problems the user should see, e.g. an account without an email address
+class OAuthSignInError extends Error {}
+
+// The provider must send users back to exactly this URL
+const callbackUrl = (req, providerId) =>
+  `${process.env.API_URL || `${req.protocol}://${req.get('host')}`}/api/auth/oauth/${providerId}/callback`;
+
+// Only same-app paths, so the redirect can't be pointed at another site
+const safeRedirect = (path) =>
+  typeof path === 'string' && path.startsWith('/') && !path.startsWith('//') ? path : '/';
+
+const failRedirect = (res, message) => {
+  res.redirect(`${clientUrl}/login?oauth_error=${encodeURIComponent(message)}`);
+};
+
+// Usernames follow the same rules as ones picked at signup
+const findFreeUsername = async (profile) => {
+  const base = (profile.username || profile.email?.split('@')[0] || 'user')
+    .replace(/[^a-zA-Z0-9_]/g, '_')
+    .slice(0, 24)
+    .padEnd(3, '_');
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate = attempt === 0 ? base : `${base}${Math.floor(1000 + Math.random() * 9000)}`;
+
+    const { data: taken } = await supabase
+      .from('users')
+      .select('id')
+      .eq('username', candidate)
+      .maybeSingle();
+
+    if (!taken) {
+      return candidate;
+    }
+  }
+
+  throw new Error('Could not find a free username');
+};
+
+const linkIdentity = async (userId, providerId, profile) => {
+  const { error } = await supabase
+    .from('user_identities')
+    .insert([{
+      user_id: userId,
+      provider: providerId,
+      provider_user_id: profile.providerUserId,
+      email: profile.email
+    }]);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Find the user behind a provider account: an existing link, then an existing account
+// with the same (provider-verified) email, and otherwise a brand new user
+const findOrCreateUser = async (providerId, provider, profile) => {
+  const { data: identity } = await supabase
+    .from('user_identities')
+    .select('user_id')
+    .eq('provider', providerId)
+    .eq('provider_user_id', profile.providerUserId)
+    .maybeSingle();
+
+  if (identity) {
+    return identity.user_id;
+  }
+
+  if (!profile.email) {
+    throw new OAuthSignInError(`Your ${provider.name} account has no email address we can use`);
+  }
+
+  const { data: existingUser } = await supabase
+    .from('users')
+    .select('id, email_verified_at')
+    .eq('email', profile.email)
+    .maybeSingle();
+
+  if (existingUser) {
+    // Linking on an unverified address would let anyone claim the account
+    if (!profile.emailVerified) {
+      throw new OAuthSignInError(
+        `An account with ${profile.email} already exists. Log in with your password instead.`
+      );
+    }
+
+    await linkIdentity(existingUser.id, providerId, profile);
+
+    if (!existingUser.email_verified_at) {
+      await supabase
+        .from('users')
+        .update({ email_verified_at: new Date().toISOString() })
+        .eq('id', existingUser.id);
+    }
+
+    return existingUser.id;
+  }
+
+  const firstName = profile.firstName || profile.username || profile.email.split('@')[0];
+  const lastName = profile.lastName || '';
+
+  const { data: newUser, error } = await supabase
+    .from('users')
+    .insert([{
+      email: profile.email,
+      username: await findFreeUsername(profile),
+      first_name: firstName,
+      last_name: lastName,
+      password_hash: null,
+      email_verified_at: profile.emailVerified ? new Date().toISOString() : null,
+      avatar_url: profile.avatarUrl ||
+        `https://ui-avatars.com/api/?name=${encodeURIComponent(`${firstName} ${lastName}`.trim())}&background=3b82f6&color=fff&size=200`
+    }])
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  await linkIdentity(newUser.id, providerId, profile);
+  return newUser.id;
+};
+
+// List the providers that are configured, for the sign-in buttons
+router.get('/providers', (req, res) => {
+  res.json({
+    providers: Object.entries(oauthProviders).map(([id, provider]) => ({ id, name: provider.name }))
+  });
+});
+
+// Start the authorization code flow; the browser is sent here, not an XHR
+router.get('/:provider', async (req, res) => {
+  try {
+    const provider = oauthProviders[req.params.provider];
+
+    if (!provider) {
+      return failRedirect(res, 'That sign-in provider is not available');
+    }
+
+    const state = randomToken();
+    const codeVerifier = randomToken();
+
+    const authorizationUrl = await buildAuthorizationUrl(provider, {
+      redirectUri: callbackUrl(req, req.params.provider),
+      state,
+      codeVerifier
+    });
+
+    // The verifier never leaves the server and this browser until the code exchange
+    res.cookie(STATE_COOKIE, JSON.stringify({
+      provider: req.params.provider,
+      state,
+      codeVerifier,
+      redirect: safeRedirect(req.query.redirect)
+    }), { ...stateCookieOptions, maxAge: 10 * 60 * 1000 });
+
+    res.redirect(authorizationUrl);
+  } catch (error) {
+    console.error('OAuth start error:', error);
+    failRedirect(res, 'Sign-in failed, please try again');
+  }
+});
+
+// The provider sends the browser back here with an authorization code
+router.get('/:provider/callback', async (req, res) => {
+  let flow = null;
+  try {
+    flow = JSON.parse(req.cookies[STATE_COOKIE] || 'null');
+  } catch (error) {
+    flow = null;
+  }
+  res.clearCookie(STATE_COOKIE, stateCookieOptions);
+
+  try {
+    const providerId = req.params.provider;
+    const provider = oauthProviders[providerId];
+
+    if (!provider) {
+      return failRedirect(res, 'That sign-in provider is not available');
+    }
+
+    if (req.query.error) {
+      return failRedirect(res, `${provider.name} sign-in was cancelled`);
+    }
+
+    // The state ties this callback to the flow this browser started
+    if (!flow || flow.provider !== providerId || !req.query.state || flow.state !== req.query.state) {
+      return failRedirect(res, 'Sign-in expired, please try again');
+    }
+
+    const profile = await fetchOAuthProfile(provider, {
+      code: req.query.code,
+      redirectUri: callbackUrl(req, providerId),
+      codeVerifier: flow.codeVerifier
+    });
+
+    const userId = await findOrCreateUser(providerId, provider, profile);
+
+    const { data: account } = await supabase
+      .from('users')
+      .select('suspended_at')
+      .eq('id', userId)
+      .single();
+
+    if (account?.suspended_at) {
+      return failRedirect(res, 'Your account has been suspended');
+    }
+
+    // The provider stands in for the password, not for the second factor
+    if (await isTwoFactorEnabled(userId)) {
+      const challenge = createChallengeToken(userId);
+      return res.redirect(
+        `${clientUrl}/two-factor?challenge=${challenge}&redirect=${encodeURIComponent(flow.redirect)}`
+      );
+    }
+
+    // Sets the refresh cookie; the app picks the session up when it loads
+    await startSession(req, res, userId);
+
+    res.redirect(`${clientUrl}/oauth/callback?redirect=${encodeURIComponent(flow.redirect)}`);
+  } catch (error) {
+    console.error('OAuth callback error:', error);
+    failRedirect(res, error instanceof OAuthSignInError ? error.message : 'Sign-in failed, please try again');
+  }
+});
+
+export default router;
@@ -1,71 +1,68 @@
 import express from 'express';
 import { supabase } from '../config/database.js';
-import { authenticateToken } from '../middleware/auth.js';
+import { authenticateToken, optionalAuth } from '../middleware/auth.js';
 import { upload, handleUploadError } from '../middleware/upload.js';
+import cloudinary from '../config/cloudinary.js';
+import { PIN_UNDO_WINDOW_MS } from '../jobs/purgeDeletedPins.js';
+import { collectTags, syncPinTags } from '../utils/tags.js';
+import { decodeCursor, applyCursor, cursorPage } from '../utils/cursor.js';
+import {
+  pinFeedSelect,
+  withViewerState,
+  publishPinCounts,
+  PIN_VISIBILITIES,
+  getPinAudience,
+  visiblePinsFilter,
+  canViewPin
+} from '../utils/pins.js';
+import { createNotification, removeNotification } from '../utils/notifications.js';
+import { getBlockedIds, getMutedIds, excludeAuthors } from '../utils/blocks.js';
 
 const router = express.Router();
 
-// Get all pins with pagination
-router.get('/', async (req, res) => {
+// Get all pins, newest first (text search lives under /api/search)
+router.get('/', optionalAuth, async (req, res) => {
   try {
-    const page = parseInt(req.query.page) || 1;
-    const limit = parseInt(req.query.limit) || 20;
-    const search = req.query.search || '';
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
     const category = req.query.category || '';
-    
-    const offset = (page - 1) * limit;
+    const cursor = req.query.cursor ? decodeCursor(req.query.cursor) : null;
+
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    const [audience, mutedIds] = await Promise.all([
+      getPinAudience(req.user?.id),
+      getMutedIds(req.user?.id)
+    ]);
 
     let query = supabase
       .from('pins')
-      .select(`
-        *,
-        users!pins_user_id_fkey (
-          id,
-          username,
-          first_name,
-          last_name,
-          avatar_url
-        ),
-        pin_likes!left (
-          user_id
-        ),
-        pin_saves!left (
-          user_id
-        )
-      `)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .select(pinFeedSelect)
+      .is('deleted_at', null)
+      .or(visiblePinsFilter(audience));
 
-    // Add search filter
-    if (search) {
-      query = query.or(`title.ilike.%${search}%,description.ilike.%${search}%`);
-    }
+    // Muted people stay followable, their pins just leave the viewer's feeds
+    query = excludeAuthors(query, mutedIds);
 
     // Add category filter
     if (category) {
       query = query.eq('category', category);
     }
 
-    const { data: pins, error } = await query;
+    const { data: pins, error } = await applyCursor(query, cursor, limit);
 
     if (error) {
       console.error('Get pins error:', error);
       return res.status(500).json({ message: 'Failed to fetch pins' });
     }
 
-    // Transform data to include counts
-    const pinsWithCounts = pins.map(pin => ({
-      ...pin,
-      likes_count: pin.pin_likes.length,
-      saves_count: pin.pin_saves.length,
-      pin_likes: undefined,
-      pin_saves: undefined
-    }));
+    const { rows, nextCursor, hasMore } = cursorPage(pins, limit);
 
     res.json({
-      pins: pinsWithCounts,
-      page,
-      hasMore: pins.length === limit
+      pins: await withViewerState(rows, req.user?.id),
+      nextCursor,
+      hasMore
     });
   } catch (error) {
     console.error('Get pins error:', error);
@@ -73,58 +70,182 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Get pins from users the current user follows, newest first
+router.get('/feed', authenticateToken, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const cursor = req.query.cursor ? decodeCursor(req.query.cursor) : null;
+
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    const { data: follows, error: followsError } = await supabase
+      .from('user_follows')
+      .select('following_id')
+      .eq('follower_id', req.user.id);
+
+    if (followsError) {
+      console.error('Get follows error:', followsError);
+      return res.status(500).json({ message: 'Failed to fetch feed' });
+    }
+
+    const mutedIds = await getMutedIds(req.user.id);
+    const authorIds = follows
+      .map(follow => follow.following_id)
+      .filter(userId => !mutedIds.includes(userId));
+
+    if (authorIds.length === 0) {
+      return res.json({ pins: [], nextCursor: null, hasMore: false });
+    }
+
+    const query = supabase
+      .from('pins')
+      .select(pinFeedSelect)
+      .in('user_id', authorIds)
+      .in('visibility', ['public', 'followers'])
+      .is('deleted_at', null);
+
+    const { data: pins, error } = await applyCursor(query, cursor, limit);
+
+    if (error) {
+      console.error('Get feed error:', error);
+      return res.status(500).json({ message: 'Failed to fetch feed' });
+    }
+
+    const { rows, nextCursor, hasMore } = cursorPage(pins, limit);
+
+    res.json({
+      pins: await withViewerState(rows, req.user.id),
+      nextCursor,
+      hasMore
+    });
+  } catch (error) {
+    console.error('Get feed error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // Get single pin
-router.get('/:id', async (req, res) => {
+router.get('/:id', optionalAuth, async (req, res) => {
   try {
     const { data: pin, error } = await supabase
       .from('pins')
       .select(`
-        *,
-        users!pins_user_id_fkey (
-          id,
-          username,
-          first_name,
-          last_name,
-          avatar_url
-        ),
-        pin_likes!left (
-          user_id
-        ),
-        pin_saves!left (
-          user_id
+        ${pinFeedSelect},
+        pin_tags (
+          tags (
+            name
+          )
         )
       `)
       .eq('id', req.params.id)
+      .is('deleted_at', null)
       .single();
 
-    if (error || !pin) {
+    // Pins the viewer isn't allowed to see look the same as missing ones
+    if (error || !pin || !(await canViewPin(pin, req.user?.id))) {
       return res.status(404).json({ message: 'Pin not found' });
     }
 
-    const pinWithCounts = {
-      ...pin,
-      likes_count: pin.pin_likes.length,
-      saves_count: pin.pin_saves.length,
-      pin_likes: undefined,
-      pin_saves: undefined
-    };
+    const [pinWithState] = await withViewerState([pin], req.user?.id);
 
-    res.json(pinWithCounts);
+    res.json({
+      ...pinWithState,
+      tags: pin.pin_tags.map(pinTag => pinTag.tags.name),
+      pin_tags: undefined
+    });
   } catch (error) {
     console.error('Get pin error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
+// Get related pins ("More like this")
+router.get('/:id/related', optionalAuth, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const offset = (page - 1) * limit;
+
+    const { data: target, error: targetError } = await supabase
+      .from('pins')
+      .select('id, user_id, visibility')
+      .eq('id', req.params.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (targetError || !target || !(await canViewPin(target, req.user?.id))) {
+      return res.status(404).json({ message: 'Pin not found' });
+    }
+
+    // Rank candidates by category, shared terms and co-saves
+    const { data: ranked, error: rankError } = await supabase.rpc('related_pins', {
+      target_pin_id: req.params.id,
+      result_limit: limit,
+      result_offset: offset
+    });
+
+    if (rankError) {
+      console.error('Rank related pins error:', rankError);
+      return res.status(500).json({ message: 'Failed to fetch related pins' });
+    }
+
+    if (ranked.length === 0) {
+      return res.json({ pins: [], page, hasMore: false });
+    }
+
+    // Blocked people, either way, and muted people never show up here either
+    const [blockedIds, mutedIds] = await Promise.all([
+      getBlockedIds(req.user?.id),
+      getMutedIds(req.user?.id)
+    ]);
+
+    const query = supabase
+      .from('pins')
+      .select(pinFeedSelect)
+      .in('id', ranked.map(row => row.pin_id))
+      .eq('visibility', 'public')
+      .is('deleted_at', null);
+
+    const { data: pins, error } = await excludeAuthors(query, [...blockedIds, ...mutedIds]);
+
+    if (error) {
+      console.error('Get related pins error:', error);
+      return res.status(500).json({ message: 'Failed to fetch related pins' });
+    }
+
+    // Restore ranking order, which the `in` filter doesn't preserve
+    const pinsById = new Map(pins.map(pin => [pin.id, pin]));
+    const rankedPins = ranked
+      .map(row => pinsById.get(row.pin_id))
+      .filter(Boolean);
+
+    res.json({
+      pins: await withViewerState(rankedPins, req.user?.id),
+      page,
+      hasMore: ranked.length === limit
+    });
+  } catch (error) {
+    console.error('Get related pins error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // Create new pin
 router.post('/', authenticateToken, upload.single('image'), handleUploadError, async (req, res) => {
   try {
-    const { title, description, link, category } = req.body;
+    const { title, description, link, category, tags } = req.body;
+    const visibility = req.body.visibility || 'public';
 
     if (!title || !req.file) {
       return res.status(400).json({ message: 'Title and image are required' });
     }
 
+    if (!PIN_VISIBILITIES.includes(visibility)) {
+      return res.status(400).json({ message: 'Invalid visibility' });
+    }
+
     const { data: pin, error } = await supabase
       .from('pins')
       .insert([{
@@ -132,7 +253,9 @@ router.post('/', authenticateToken, upload.single('image'), handleUploadError, a
         description: description || '',
         link: link || '',
         category: category || 'general',
+        visibility,
         image_url: req.file.path,
+        image_public_id: req.file.filename,
         user_id: req.user.id
       }])
       .select(`
@@ -148,16 +271,28 @@ router.post('/', authenticateToken, upload.single('image'), handleUploadError, a
       .single();
 
     if (error) {
+      if (error.code === '23503') {
+        return res.status(400).json({ message: 'Unknown category' });
+      }
       console.error('Create pin error:', error);
       return res.status(500).json({ message: 'Failed to create pin' });
     }
 
+    // Tags are best effort; the pin itself has been created
+    let pinTags = [];
+    try {
+      pinTags = await syncPinTags(pin.id, collectTags(tags, pin.description));
+    } catch (tagError) {
+      console.error('Save pin tags error:', tagError);
+    }
+
     res.status(201).json({
       message: 'Pin created successfully',
       pin: {
         ...pin,
         likes_count: 0,
-        saves_count: 0
+        saves_count: 0,
+        tags: pinTags
       }
     });
   } catch (error) {
@@ -166,20 +301,108 @@ router.post('/', authenticateToken, upload.single('image'), handleUploadError, a
   }
 });
 
+// Update pin (owner only), optionally replacing its image
+router.put('/:id', authenticateToken, upload.single('image'), handleUploadError, async (req, res) => {
+  try {
+    const pinId = req.params.id;
+    const { title, description, link, category, tags, visibility } = req.body;
+
+    // Check if pin exists and user owns it
+    const { data: existingPin, error: pinError } = await supabase
+      .from('pins')
+      .select('id, user_id, image_public_id, visibility, hidden_at')
+      .eq('id', pinId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pinError || !existingPin) {
+      return res.status(404).json({ message: 'Pin not found' });
+    }
+
+    if (existingPin.user_id !== req.user.id) {
+      return res.status(403).json({ message: 'Not authorized to edit this pin' });
+    }
+
+    if (title !== undefined && !title.trim()) {
+      return res.status(400).json({ message: 'Title is required' });
+    }
+
+    if (visibility !== undefined && !PIN_VISIBILITIES.includes(visibility)) {
+      return res.status(400).json({ message: 'Invalid visibility' });
+    }
+
+    // A moderator hid this pin; only they can make it visible again
+    if (existingPin.hidden_at && visibility !== undefined && visibility !== existingPin.visibility) {
+      return res.status(403).json({ message: 'This pin was hidden by a moderator' });
+    }
+
+    const updates = {};
+    if (title !== undefined) updates.title = title.trim();
+    if (description !== undefined) updates.description = description;
+    if (link !== undefined) updates.link = link;
+    if (category !== undefined) updates.category = category || 'general';
+    if (visibility !== undefined) updates.visibility = visibility;
+    if (req.file) {
+      updates.image_url = req.file.path;
+      updates.image_public_id = req.file.filename;
+    }
+
+    const { data: pin, error } = await supabase
+      .from('pins')
+      .update(updates)
+      .eq('id', pinId)
+      .select(pinFeedSelect)
+      .single();
+
+    if (error) {
+      if (error.code === '23503') {
+        return res.status(400).json({ message: 'Unknown category' });
+      }
+      console.error('Update pin error:', error);
+      return res.status(500).json({ message: 'Failed to update pin' });
+    }
+
+    // Tags are replaced whenever the form sends them, including #hashtags in the description
+    if (tags !== undefined) {
+      try {
+        await syncPinTags(pinId, collectTags(tags, pin.description));
+      } catch (tagError) {
+        console.error('Save pin tags error:', tagError);
+      }
+    }
+
+    // Remove the replaced image; a failure here shouldn't fail the update
+    if (req.file && existingPin.image_public_id) {
+      cloudinary.uploader.destroy(existingPin.image_public_id).catch(destroyError => {
+        console.error('Delete replaced image error:', destroyError);
+      });
+    }
+
+    res.json({
+      message: 'Pin updated successfully',
+      pin: (await withViewerState([pin], req.user.id))[0]
+    });
+  } catch (error) {
+    console.error('Update pin error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // Like/Unlike pin
 router.post('/:id/like', authenticateToken, async (req, res) => {
   try {
     const pinId = req.params.id;
     const userId = req.user.id;
 
-    // Check if pin exists
+    // Check if pin exists and the user can see it
     const { data: pin, error: pinError } = await supabase
       .from('pins')
-      .select('id')
+      .select('id, user_id, visibility')
       .eq('id', pinId)
+      .is('deleted_at', null)
       .single();
 
-    if (pinError || !pin) {
+    if (pinError || !pin || !(await canViewPin(pin, userId))) {
       return res.status(404).json({ message: 'Pin not found' });
     }
 
@@ -203,6 +426,9 @@ router.post('/:id/like', authenticateToken, async (req, res) => {
         return res.status(500).json({ message: 'Failed to unlike pin' });
       }
 
+      await removeNotification({ recipientId: pin.user_id, actorId: userId, type: 'like', pinId });
+      await publishPinCounts(pinId);
+
       res.json({ message: 'Pin unliked', liked: false });
     } else {
       // Like
@@ -214,6 +440,9 @@ router.post('/:id/like', authenticateToken, async (req, res) => {
         return res.status(500).json({ message: 'Failed to like pin' });
       }
 
+      await createNotification({ recipientId: pin.user_id, actorId: userId, type: 'like', pinId });
+      await publishPinCounts(pinId);
+
       res.json({ message: 'Pin liked', liked: true });
     }
   } catch (error) {
@@ -222,32 +451,60 @@ router.post('/:id/like', authenticateToken, async (req, res) => {
   }
 });
 
-// Save/Unsave pin
+// Save/Unsave pin, optionally filing it under one of the user's boards
 router.post('/:id/save', authenticateToken, async (req, res) => {
   try {
     const pinId = req.params.id;
     const userId = req.user.id;
+    const boardId = req.body.boardId || null;
 
-    // Check if pin exists
+    // Check if pin exists and the user can see it
     const { data: pin, error: pinError } = await supabase
       .from('pins')
-      .select('id')
+      .select('id, user_id, visibility')
       .eq('id', pinId)
+      .is('deleted_at', null)
       .single();
 
-    if (pinError || !pin) {
+    if (pinError || !pin || !(await canViewPin(pin, userId))) {
       return res.status(404).json({ message: 'Pin not found' });
     }
 
+    // Check the board belongs to the user
+    if (boardId) {
+      const { data: board, error: boardError } = await supabase
+        .from('boards')
+        .select('id')
+        .eq('id', boardId)
+        .eq('user_id', userId)
+        .single();
+
+      if (boardError || !board) {
+        return res.status(404).json({ message: 'Board not found' });
+      }
+    }
+
     // Check if already saved
     const { data: existingSave } = await supabase
       .from('pin_saves')
-      .select('id')
+      .select('id, board_id')
       .eq('pin_id', pinId)
       .eq('user_id', userId)
       .single();
 
-    if (existingSave) {
+    if (existingSave && boardId && existingSave.board_id !== boardId) {
+      // Move to another board
+      const { error } = await supabase
+        .from('pin_saves')
+        .update({ board_id: boardId })
+        .eq('id', existingSave.id);
+
+      if (error) {
+        return res.status(500).json({ message: 'Failed to move pin' });
+      }
+
+      res.json({ message: 'Pin moved', saved: true, boardId });
+    } else if (existingSave) {
       // Unsave
       const { error } = await supabase
         .from('pin_saves')
@@ -259,18 +516,24 @@ router.post('/:id/save', authenticateToken, async (req, res) => {
         return res.status(500).json({ message: 'Failed to unsave pin' });
       }
 
-      res.json({ message: 'Pin unsaved', saved: false });
+      await removeNotification({ recipientId: pin.user_id, actorId: userId, type: 'save', pinId });
+      await publishPinCounts(pinId);
+
+      res.json({ message: 'Pin unsaved', saved: false, boardId: null });
     } else {
       // Save
       const { error } = await supabase
         .from('pin_saves')
-        .insert([{ pin_id: pinId, user_id: userId }]);
+        .insert([{ pin_id: pinId, user_id: userId, board_id: boardId }]);
 
       if (error) {
         return res.status(500).json({ message: 'Failed to save pin' });
       }
 
-      res.json({ message: 'Pin saved', saved: true });
+      await createNotification({ recipientId: pin.user_id, actorId: userId, type: 'save', pinId });
+      await publishPinCounts(pinId);
+
+      res.json({ message: 'Pin saved', saved: true, boardId });
     }
   } catch (error) {
     console.error('Save pin error:', error);
@@ -278,7 +541,7 @@ router.post('/:id/save', authenticateToken, async (req, res) => {
   }
 });
 
-// Delete pin
+// Delete pin (soft delete, can be restored during the undo window)
 router.delete('/:id', authenticateToken, async (req, res) => {
   try {
     const pinId = req.params.id;
@@ -289,6 +552,7 @@ router.delete('/:id', authenticateToken, async (req, res) => {
       .from('pins')
       .select('id, user_id')
       .eq('id', pinId)
+      .is('deleted_at', null)
       .single();
 
     if (pinError || !pin) {
@@ -299,21 +563,68 @@ router.delete('/:id', authenticateToken, async (req, res) => {
       return res.status(403).json({ message: 'Not authorized to delete this pin' });
     }
 
-    // Delete pin (cascading deletes will handle likes and saves)
     const { error } = await supabase
       .from('pins')
-      .delete()
+      .update({ deleted_at: new Date().toISOString() })
       .eq('id', pinId);
 
     if (error) {
       return res.status(500).json({ message: 'Failed to delete pin' });
     }
 
-    res.json({ message: 'Pin deleted successfully' });
+    res.json({
+      message: 'Pin deleted successfully',
+      undoWindowMs: PIN_UNDO_WINDOW_MS
+    });
   } catch (error) {
     console.error('Delete pin error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
+// Restore a deleted pin that is still inside its undo window
+router.post('/:id/restore', authenticateToken, async (req, res) => {
+  try {
+    const pinId = req.params.id;
+    // The purge job runs on its own schedule, so the pin can outlive the window a little
+    const deletedAfter = new Date(Date.now() - PIN_UNDO_WINDOW_MS).toISOString();
+
+    const { data: pin, error: pinError } = await supabase
+      .from('pins')
+      .select('id, user_id')
+      .eq('id', pinId)
+      .gt('deleted_at', deletedAfter)
+      .single();
+
+    if (pinError || !pin) {
+      return res.status(404).json({ message: 'Pin can no longer be restored' });
+    }
+
+    if (pin.user_id !== req.user.id) {
+      return res.status(403).json({ message: 'Not authorized to restore this pin' });
+    }
+
+    // Matching on the window again keeps a restore that raced its expiry from winning
+    const { data: restored, error } = await supabase
+      .from('pins')
+      .update({ deleted_at: null })
+      .eq('id', pinId)
+      .gt('deleted_at', deletedAfter)
+      .select('id');
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to restore pin' });
+    }
+
+    if (restored.length === 0) {
+      return res.status(404).json({ message: 'Pin can no longer be restored' });
+    }
+
+    res.json({ message: 'Pin restored' });
+  } catch (error) {
+    console.error('Restore pin error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
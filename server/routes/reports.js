@@ -0,0 +1,86 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { canViewPin } from '../utils/pins.js';
+
+const router = express.Router();
+
+const REPORT_REASONS = ['spam', 'harassment', 'nudity', 'violence', 'hate', 'other'];
+const MAX_DETAILS_LENGTH = 1000;
+
+// Report a pin or a user to the moderators
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { pinId, userId, reason } = req.body;
+    const details = (req.body.details || '').trim();
+
+    if (!pinId === !userId) {
+      return res.status(400).json({ message: 'Report either a pin or a user' });
+    }
+
+    if (!REPORT_REASONS.includes(reason)) {
+      return res.status(400).json({ message: 'Please choose a reason' });
+    }
+
+    if (details.length > MAX_DETAILS_LENGTH) {
+      return res.status(400).json({ message: `Details are limited to ${MAX_DETAILS_LENGTH} characters` });
+    }
+
+    if (pinId) {
+      const { data: pin, error: pinError } = await supabase
+        .from('pins')
+        .select('id, user_id, visibility')
+        .eq('id', pinId)
+        .is('deleted_at', null)
+        .single();
+
+      if (pinError || !pin || !(await canViewPin(pin, req.user.id))) {
+        return res.status(404).json({ message: 'Pin not found' });
+      }
+
+      if (pin.user_id === req.user.id) {
+        return res.status(400).json({ message: 'You can\'t report your own pin' });
+      }
+    } else {
+      const { data: user, error: userError } = await supabase
+        .from('users')
+        .select('id')
+        .eq('id', userId)
+        .single();
+
+      if (userError || !user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      if (user.id === req.user.id) {
+        return res.status(400).json({ message: 'You can\'t report yourself' });
+      }
+    }
+
+    const { error } = await supabase
+      .from('reports')
+      .insert([{
+        reporter_id: req.user.id,
+        pin_id: pinId || null,
+        reported_user_id: userId || null,
+        reason,
+        details
+      }]);
+
+    if (error) {
+      // One open report per reporter and target
+      if (error.code === '23505') {
+        return res.status(400).json({ message: 'You already reported this and it is being reviewed' });
+      }
+      console.error('Create report error:', error);
+      return res.status(500).json({ message: 'Failed to send report' });
+    }
+
+    res.status(201).json({ message: 'Thanks for letting us know, our moderators will take a look' });
+  } catch (error) {
+    console.error('Create report error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
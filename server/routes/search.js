@@ -0,0 +1,315 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+import { authenticateToken, optionalAuth } from '../middleware/auth.js';
+import { pinFeedSelect, withViewerState } from '../utils/pins.js';
+import { getBlockedIds, getMutedIds, excludeAuthors } from '../utils/blocks.js';
+
+const router = express.Router();
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_RECENT_SEARCHES = 10;
+
+// Date filter chips, in days
+const SINCE_DAYS = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365
+};
+
+const getSearchQuery = (req) => (req.query.q || '').toString().trim().slice(0, MAX_QUERY_LENGTH);
+
+// Search pins by relevance
+router.get('/pins', optionalAuth, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const offset = (page - 1) * limit;
+    const q = getSearchQuery(req);
+    const category = req.query.category || null;
+    const since = req.query.since || '';
+
+    if (since && !Object.hasOwn(SINCE_DAYS, since)) {
+      return res.status(400).json({ message: 'Invalid date filter' });
+    }
+
+    if (!q) {
+      return res.json({ pins: [], page, hasMore: false });
+    }
+
+    const createdAfter = since
+      ? new Date(Date.now() - SINCE_DAYS[since] * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const { data: ranked, error: rankError } = await supabase.rpc('search_pins', {
+      search_query: q,
+      category_filter: category,
+      created_after: createdAfter,
+      result_limit: limit,
+      result_offset: offset
+    });
+
+    if (rankError) {
+      console.error('Rank search results error:', rankError);
+      return res.status(500).json({ message: 'Failed to search pins' });
+    }
+
+    if (ranked.length === 0) {
+      return res.json({ pins: [], page, hasMore: false });
+    }
+
+    // Blocked people, either way, and muted people never show up in results
+    const [blockedIds, mutedIds] = await Promise.all([
+      getBlockedIds(req.user?.id),
+      getMutedIds(req.user?.id)
+    ]);
+
+    const query = supabase
+      .from('pins')
+      .select(pinFeedSelect)
+      .in('id', ranked.map(row => row.pin_id))
+      .eq('visibility', 'public')
+      .is('deleted_at', null);
+
+    const { data: pins, error } = await excludeAuthors(query, [...blockedIds, ...mutedIds]);
+
+    if (error) {
+      console.error('Search pins error:', error);
+      return res.status(500).json({ message: 'Failed to search pins' });
+    }
+
+    // Restore ranking order, which the `in` filter doesn't preserve
+    const pinsById = new Map(pins.map(pin => [pin.id, pin]));
+    const rankedPins = ranked
+      .map(row => pinsById.get(row.pin_id))
+      .filter(Boolean);
+
+    res.json({
+      pins: await withViewerState(rankedPins, req.user?.id),
+      page,
+      hasMore: ranked.length === limit
+    });
+  } catch (error) {
+    console.error('Search pins error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Search people by username or name
+router.get('/users', optionalAuth, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const offset = (page - 1) * limit;
+    const q = getSearchQuery(req);
+
+    if (!q) {
+      return res.json({ users: [], page, hasMore: false });
+    }
+
+    const { data: ranked, error: rankError } = await supabase.rpc('search_users', {
+      search_query: q,
+      result_limit: limit,
+      result_offset: offset
+    });
+
+    if (rankError) {
+      console.error('Rank user results error:', rankError);
+      return res.status(500).json({ message: 'Failed to search users' });
+    }
+
+    if (ranked.length === 0) {
+      return res.json({ users: [], page, hasMore: false });
+    }
+
+    // Blocked people, either way, and muted people never show up in results
+    const [blockedIds, mutedIds] = await Promise.all([
+      getBlockedIds(req.user?.id),
+      getMutedIds(req.user?.id)
+    ]);
+
+    const query = supabase
+      .from('users')
+      .select('id, username, first_name, last_name, avatar_url, bio')
+      .in('id', ranked.map(row => row.user_id));
+
+    const { data: users, error } = await excludeAuthors(query, [...blockedIds, ...mutedIds], 'id');
+
+    if (error) {
+      console.error('Search users error:', error);
+      return res.status(500).json({ message: 'Failed to search users' });
+    }
+
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    res.json({
+      users: ranked.map(row => usersById.get(row.user_id)).filter(Boolean),
+      page,
+      hasMore: ranked.length === limit
+    });
+  } catch (error) {
+    console.error('Search users error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Search categories by name or by the pins they contain
+router.get('/categories', async (req, res) => {
+  try {
+    const q = getSearchQuery(req);
+
+    if (!q) {
+      return res.json({ categories: [] });
+    }
+
+    const { data: categories, error } = await supabase.rpc('search_categories', {
+      search_query: q
+    });
+
+    if (error) {
+      console.error('Search categories error:', error);
+      return res.status(500).json({ message: 'Failed to search categories' });
+    }
+
+    res.json({ categories });
+  } catch (error) {
+    console.error('Search categories error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Typeahead suggestions for a partially typed query
+router.get('/suggest', optionalAuth, async (req, res) => {
+  try {
+    const q = getSearchQuery(req);
+
+    if (!q) {
+      return res.json({ pins: [], categories: [], users: [] });
+    }
+
+    // Blocked people disappear from suggestions entirely; muted people keep their name
+    // but not their pins
+    const [blockedIds, mutedIds] = await Promise.all([
+      getBlockedIds(req.user?.id),
+      getMutedIds(req.user?.id)
+    ]);
+
+    const { data: suggestions, error } = await supabase.rpc('search_suggestions', {
+      search_query: q,
+      result_limit: 5,
+      hidden_author_ids: [...blockedIds, ...mutedIds],
+      hidden_user_ids: blockedIds
+    });
+
+    if (error) {
+      console.error('Search suggestions error:', error);
+      return res.status(500).json({ message: 'Failed to fetch suggestions' });
+    }
+
+    res.json({
+      pins: suggestions
+        .filter(row => row.kind === 'pin')
+        .map(row => ({ id: row.target_id, title: row.label, image_url: row.image_url })),
+      categories: suggestions
+        .filter(row => row.kind === 'category')
+        .map(row => row.label),
+      users: suggestions
+        .filter(row => row.kind === 'user')
+        .map(row => ({
+          id: row.target_id,
+          name: row.label,
+          username: row.sublabel,
+          avatar_url: row.image_url
+        }))
+    });
+  } catch (error) {
+    console.error('Search suggestions error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get the current user's recent searches
+router.get('/recent', authenticateToken, async (req, res) => {
+  try {
+    const { data: searches, error } = await supabase
+      .from('recent_searches')
+      .select('id, query, searched_at')
+      .eq('user_id', req.user.id)
+      .order('searched_at', { ascending: false })
+      .limit(MAX_RECENT_SEARCHES);
+
+    if (error) {
+      console.error('Get recent searches error:', error);
+      return res.status(500).json({ message: 'Failed to fetch recent searches' });
+    }
+
+    res.json({ searches });
+  } catch (error) {
+    console.error('Get recent searches error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Record a search, moving repeated queries back to the top
+router.post('/recent', authenticateToken, async (req, res) => {
+  try {
+    const query = (req.body.query || '').toString().trim().slice(0, MAX_QUERY_LENGTH);
+
+    if (!query) {
+      return res.status(400).json({ message: 'Search query is required' });
+    }
+
+    const { error } = await supabase
+      .from('recent_searches')
+      .upsert(
+        { user_id: req.user.id, query, searched_at: new Date().toISOString() },
+        { onConflict: 'user_id,query' }
+      );
+
+    if (error) {
+      console.error('Save recent search error:', error);
+      return res.status(500).json({ message: 'Failed to save search' });
+    }
+
+    // Only the latest few are kept
+    const { data: stale } = await supabase
+      .from('recent_searches')
+      .select('id')
+      .eq('user_id', req.user.id)
+      .order('searched_at', { ascending: false })
+      .range(MAX_RECENT_SEARCHES, MAX_RECENT_SEARCHES + 100);
+
+    if (stale && stale.length > 0) {
+      await supabase
+        .from('recent_searches')
+        .delete()
+        .in('id', stale.map(search => search.id));
+    }
+
+    res.status(201).json({ message: 'Search saved' });
+  } catch (error) {
+    console.error('Save recent search error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Clear the current user's search history
+router.delete('/recent', authenticateToken, async (req, res) => {
+  try {
+    const { error } = await supabase
+      .from('recent_searches')
+      .delete()
+      .eq('user_id', req.user.id);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to clear search history' });
+    }
+
+    res.json({ message: 'Search history cleared' });
+  } catch (error) {
+    console.error('Clear recent searches error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
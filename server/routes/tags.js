@@ -0,0 +1,137 @@
+import express from 'express';
+import { supabase } from '../config/database.js';
+import { optionalAuth } from '../middleware/auth.js';
+import { normalizeTag } from '../utils/tags.js';
+import { pinFeedSelect, withViewerState, getPinAudience, visiblePinsFilter } from '../utils/pins.js';
+
+const router = express.Router();
+
+// Tagged pins the audience can open; deleted and hidden pins aren't counted
+const countVisibleTagPins = async (tagId, audience) => {
+  const { count, error } = await supabase
+    .from('pin_tags')
+    .select('pins!inner(id)', { count: 'exact', head: true })
+    .eq('tag_id', tagId)
+    .is('pins.deleted_at', null)
+    .or(visiblePinsFilter(audience), { referencedTable: 'pins' });
+
+  if (error) {
+    throw error;
+  }
+
+  return count || 0;
+};
+
+// Suggest existing tags for a typed prefix, most used first
+router.get('/suggest', optionalAuth, async (req, res) => {
+  try {
+    const prefix = (req.query.q || '').toString().trim().replace(/^#/, '').toLowerCase();
+
+    if (!/^[a-z0-9_]{1,30}$/.test(prefix)) {
+      return res.json({ tags: [] });
+    }
+
+    const { data: tags, error } = await supabase
+      .from('tags')
+      .select('id, name')
+      .like('name', `${prefix.replace(/_/g, '\\_')}%`)
+      .order('name', { ascending: true })
+      .limit(20);
+
+    if (error) {
+      console.error('Suggest tags error:', error);
+      return res.status(500).json({ message: 'Failed to fetch tags' });
+    }
+
+    const audience = await getPinAudience(req.user?.id);
+    const counts = await Promise.all(tags.map(tag => countVisibleTagPins(tag.id, audience)));
+
+    // Tags only used on pins the viewer can't open aren't suggested at all
+    res.json({
+      tags: tags
+        .map((tag, index) => ({ name: tag.name, pins_count: counts[index] }))
+        .filter(tag => tag.pins_count > 0)
+        .sort((a, b) => b.pins_count - a.pins_count)
+        .slice(0, 8)
+    });
+  } catch (error) {
+    console.error('Suggest tags error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get single tag
+router.get('/:name', optionalAuth, async (req, res) => {
+  try {
+    const name = normalizeTag(req.params.name);
+
+    if (!name) {
+      return res.status(404).json({ message: 'Tag not found' });
+    }
+
+    const { data: tag, error } = await supabase
+      .from('tags')
+      .select('id, name')
+      .eq('name', name)
+      .single();
+
+    if (error || !tag) {
+      return res.status(404).json({ message: 'Tag not found' });
+    }
+
+    res.json({
+      id: tag.id,
+      name: tag.name,
+      pins_count: await countVisibleTagPins(tag.id, await getPinAudience(req.user?.id))
+    });
+  } catch (error) {
+    console.error('Get tag error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get pins with a tag
+router.get('/:name/pins', optionalAuth, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const offset = (page - 1) * limit;
+    const name = normalizeTag(req.params.name);
+
+    if (!name) {
+      return res.status(404).json({ message: 'Tag not found' });
+    }
+
+    const { data: taggedPins, error } = await supabase
+      .from('pin_tags')
+      .select(`
+        tags!inner (
+          name
+        ),
+        pins!inner (${pinFeedSelect})
+      `)
+      .eq('tags.name', name)
+      .is('pins.deleted_at', null)
+      .or(visiblePinsFilter(await getPinAudience(req.user?.id)), { referencedTable: 'pins' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Get tag pins error:', error);
+      return res.status(500).json({ message: 'Failed to fetch tag pins' });
+    }
+
+    const pins = await withViewerState(taggedPins.map(tagged => tagged.pins), req.user?.id);
+
+    res.json({
+      pins,
+      page,
+      hasMore: taggedPins.length === limit
+    });
+  } catch (error) {
+    console.error('Get tag pins error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,11 +1,188 @@
 import express from 'express';
 import { supabase } from '../config/database.js';
-import { authenticateToken } from '../middleware/auth.js';
+import { authenticateToken, optionalAuth } from '../middleware/auth.js';
+import { upload, handleUploadError } from '../middleware/upload.js';
+import { decodeCursor, applyCursor, cursorPage } from '../utils/cursor.js';
+import {
+  pinFeedSelect,
+  withViewerState,
+  PIN_SORT_COLUMNS,
+  getPinAudience,
+  visiblePinsFilter,
+  isPinVisible,
+  visibilitiesFor
+} from '../utils/pins.js';
+import { createNotification, removeNotification } from '../utils/notifications.js';
+import { isBlockedBetween } from '../utils/blocks.js';
 
 const router = express.Router();
 
+const USERNAME_PATTERN = /^[a-zA-Z0-9_]{3,30}$/;
+const MAX_BIO_LENGTH = 500;
+
+// Ids (out of userIds) that the viewer follows
+const getFollowedIds = async (viewerId, userIds) => {
+  if (!viewerId || userIds.length === 0) {
+    return new Set();
+  }
+
+  const { data: follows } = await supabase
+    .from('user_follows')
+    .select('following_id')
+    .eq('follower_id', viewerId)
+    .in('following_id', userIds);
+
+  return new Set((follows || []).map(follow => follow.following_id));
+};
+
+// Whether the viewer blocked or muted a user. Being blocked by them isn't revealed.
+const getRestrictions = async (viewerId, userId) => {
+  if (!viewerId) {
+    return { isBlocked: false, isMuted: false };
+  }
+
+  const [{ data: block }, { data: mute }] = await Promise.all([
+    supabase
+      .from('user_blocks')
+      .select('id')
+      .eq('blocker_id', viewerId)
+      .eq('blocked_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('user_mutes')
+      .select('id')
+      .eq('muter_id', viewerId)
+      .eq('muted_id', userId)
+      .maybeSingle()
+  ]);
+
+  return { isBlocked: !!block, isMuted: !!mute };
+};
+
+// Paginated followers/following list, shared by both routes
+const sendFollowList = async (req, res, direction) => {
+  const page = parseInt(req.query.page) || 1;
+  const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+  const offset = (page - 1) * limit;
+  const isFollowers = direction === 'followers';
+
+  const { data: follows, error, count } = await supabase
+    .from('user_follows')
+    .select(`
+      created_at,
+      user:users!${isFollowers ? 'user_follows_follower_id_fkey' : 'user_follows_following_id_fkey'} (
+        id,
+        username,
+        first_name,
+        last_name,
+        avatar_url
+      )
+    `, { count: 'exact' })
+    .eq(isFollowers ? 'following_id' : 'follower_id', req.params.id)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error(`Get ${direction} error:`, error);
+    return res.status(500).json({ message: `Failed to fetch ${direction}` });
+  }
+
+  const users = follows.map(follow => follow.user);
+  const followedIds = await getFollowedIds(req.user?.id, users.map(user => user.id));
+
+  res.json({
+    users: users.map(user => ({
+      ...user,
+      is_following: followedIds.has(user.id)
+    })),
+    total: count || 0,
+    page,
+    hasMore: offset + follows.length < (count || 0)
+  });
+};
+
+// Accounts the current user blocked or muted, newest first, shared by both routes
+const sendRestrictionList = async (req, res, kind) => {
+  const isBlocks = kind === 'blocked';
+  const table = isBlocks ? 'user_blocks' : 'user_mutes';
+
+  const { data: rows, error } = await supabase
+    .from(table)
+    .select(`
+      created_at,
+      user:users!${isBlocks ? 'user_blocks_blocked_id_fkey' : 'user_mutes_muted_id_fkey'} (
+        id,
+        username,
+        first_name,
+        last_name,
+        avatar_url
+      )
+    `)
+    .eq(isBlocks ? 'blocker_id' : 'muter_id', req.user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error(`Get ${kind} users error:`, error);
+    return res.status(500).json({ message: `Failed to fetch ${kind} users` });
+  }
+
+  res.json({
+    users: rows.map(row => ({ ...row.user, [`${kind}_at`]: row.created_at }))
+  });
+};
+
+// Get the users the current user blocked
+router.get('/blocked', authenticateToken, async (req, res) => {
+  try {
+    await sendRestrictionList(req, res, 'blocked');
+  } catch (error) {
+    console.error('Get blocked users error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get the users the current user muted
+router.get('/muted', authenticateToken, async (req, res) => {
+  try {
+    await sendRestrictionList(req, res, 'muted');
+  } catch (error) {
+    console.error('Get muted users error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Check whether a username is free (the current user's own username counts as free)
+router.get('/check-username', optionalAuth, async (req, res) => {
+  try {
+    const username = (req.query.username || '').trim();
+
+    if (!USERNAME_PATTERN.test(username)) {
+      return res.json({
+        available: false,
+        message: 'Usernames are 3-30 letters, numbers or underscores'
+      });
+    }
+
+    const { data: existingUser } = await supabase
+      .from('users')
+      .select('id')
+      .eq('username', username)
+      .maybeSingle();
+
+    const available = !existingUser || existingUser.id === req.user?.id;
+
+    res.json({
+      available,
+      message: available ? 'Username is available' : 'Username is already taken'
+    });
+  } catch (error) {
+    console.error('Check username error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // Get user profile
-router.get('/:id', async (req, res) => {
+router.get('/:id', optionalAuth, async (req, res) => {
   try {
     const { data: user, error } = await supabase
       .from('users')
@@ -17,11 +194,13 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
-    // Get user's pins count
+    // Get user's pins count, counting only the pins the viewer can see
     const { count: pinsCount } = await supabase
       .from('pins')
       .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id);
+      .eq('user_id', user.id)
+      .in('visibility', await visibilitiesFor(user.id, req.user?.id))
+      .is('deleted_at', null);
 
     // Get user's followers count
     const { count: followersCount } = await supabase
@@ -35,11 +214,19 @@ router.get('/:id', async (req, res) => {
       .select('*', { count: 'exact', head: true })
       .eq('follower_id', user.id);
 
+    // Whether the viewer follows this user
+    const followedIds = await getFollowedIds(req.user?.id, [user.id]);
+
+    const { isBlocked, isMuted } = await getRestrictions(req.user?.id, user.id);
+
     res.json({
       ...user,
       pins_count: pinsCount || 0,
       followers_count: followersCount || 0,
-      following_count: followingCount || 0
+      following_count: followingCount || 0,
+      is_following: followedIds.has(user.id),
+      is_blocked: isBlocked,
+      is_muted: isMuted
     });
   } catch (error) {
     console.error('Get user error:', error);
@@ -47,51 +234,131 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// Get user's pins
-router.get('/:id/pins', async (req, res) => {
+// Update own profile, optionally uploading a new avatar
+router.put('/:id', authenticateToken, upload.single('avatar'), handleUploadError, async (req, res) => {
   try {
-    const page = parseInt(req.query.page) || 1;
-    const limit = parseInt(req.query.limit) || 20;
-    const offset = (page - 1) * limit;
+    if (req.params.id !== req.user.id) {
+      return res.status(403).json({ message: 'Not authorized' });
+    }
 
-    const { data: pins, error } = await supabase
+    const { firstName, lastName, username, bio } = req.body;
+    const updates = {};
+
+    if (firstName !== undefined) {
+      if (!firstName.trim()) {
+        return res.status(400).json({ message: 'First name is required' });
+      }
+      updates.first_name = firstName.trim();
+    }
+
+    if (lastName !== undefined) {
+      if (!lastName.trim()) {
+        return res.status(400).json({ message: 'Last name is required' });
+      }
+      updates.last_name = lastName.trim();
+    }
+
+    if (username !== undefined && username.trim() !== req.user.username) {
+      if (!USERNAME_PATTERN.test(username.trim())) {
+        return res.status(400).json({ message: 'Usernames are 3-30 letters, numbers or underscores' });
+      }
+
+      const { data: existingUser } = await supabase
+        .from('users')
+        .select('id')
+        .eq('username', username.trim())
+        .maybeSingle();
+
+      if (existingUser && existingUser.id !== req.user.id) {
+        return res.status(400).json({ message: 'Username already exists' });
+      }
+      updates.username = username.trim();
+    }
+
+    if (bio !== undefined) {
+      if (bio.length > MAX_BIO_LENGTH) {
+        return res.status(400).json({ message: `Bio is limited to ${MAX_BIO_LENGTH} characters` });
+      }
+      updates.bio = bio.trim();
+    }
+
+    if (req.file) {
+      updates.avatar_url = req.file.path;
+    }
+
+    const { data: user, error } = await supabase
+      .from('users')
+      .update(updates)
+      .eq('id', req.user.id)
+      .select('id, email, username, first_name, last_name, avatar_url, bio, created_at')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(400).json({ message: 'Username already exists' });
+      }
+      console.error('Update profile error:', error);
+      return res.status(500).json({ message: 'Failed to update profile' });
+    }
+
+    res.json({ message: 'Profile updated successfully', user });
+  } catch (error) {
+    console.error('Update profile error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get user's pins, newest first unless another sort is requested
+router.get('/:id/pins', optionalAuth, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const sort = req.query.sort || 'newest';
+
+    if (!Object.hasOwn(PIN_SORT_COLUMNS, sort)) {
+      return res.status(400).json({ message: 'Invalid sort' });
+    }
+
+    const sortColumn = PIN_SORT_COLUMNS[sort];
+    const cursor = req.query.cursor ? decodeCursor(req.query.cursor, sortColumn) : null;
+
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    const visibilities = await visibilitiesFor(req.params.id, req.user?.id);
+
+    const query = supabase
       .from('pins')
-      .select(`
-        *,
-        users!pins_user_id_fkey (
-          id,
-          username,
-          first_name,
-          last_name,
-          avatar_url
-        ),
-        pin_likes!left (
-          user_id
-        ),
-        pin_saves!left (
-          user_id
-        )
-      `)
+      .select(pinFeedSelect)
       .eq('user_id', req.params.id)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .in('visibility', visibilities)
+      .is('deleted_at', null);
+
+    const { data: pins, error } = await applyCursor(query, cursor, limit, sortColumn);
 
     if (error) {
       return res.status(500).json({ message: 'Failed to fetch user pins' });
     }
 
-    const pinsWithCounts = pins.map(pin => ({
-      ...pin,
-      likes_count: pin.pin_likes.length,
-      saves_count: pin.pin_saves.length,
-      pin_likes: undefined,
-      pin_saves: undefined
-    }));
+    const { rows, nextCursor, hasMore } = cursorPage(pins, limit, sortColumn);
+
+    // The total is only needed alongside the first page
+    let total;
+    if (!cursor) {
+      const { count } = await supabase
+        .from('pins')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', req.params.id)
+        .in('visibility', visibilities)
+        .is('deleted_at', null);
+      total = count || 0;
+    }
 
     res.json({
-      pins: pinsWithCounts,
-      page,
-      hasMore: pins.length === limit
+      pins: await withViewerState(rows, req.user?.id),
+      total,
+      nextCursor,
+      hasMore
     });
   } catch (error) {
     console.error('Get user pins error:', error);
@@ -107,53 +374,156 @@ router.get('/:id/saved', authenticateToken, async (req, res) => {
       return res.status(403).json({ message: 'Not authorized' });
     }
 
-    const page = parseInt(req.query.page) || 1;
-    const limit = parseInt(req.query.limit) || 20;
-    const offset = (page - 1) * limit;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const sort = req.query.sort || 'newest';
+
+    if (!Object.hasOwn(PIN_SORT_COLUMNS, sort)) {
+      return res.status(400).json({ message: 'Invalid sort' });
+    }
+
+    const sortColumn = PIN_SORT_COLUMNS[sort];
+    const cursor = req.query.cursor ? decodeCursor(req.query.cursor, sortColumn) : null;
+
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    // Pins saved while public drop out once their owner restricts them
+    const visibleFilter = visiblePinsFilter(await getPinAudience(req.user.id));
+
+    // Page over the saved pins themselves so every sort can use the same keyset
+    const savedPinsQuery = (select, options) => {
+      let query = supabase
+        .from('pins')
+        .select(select, options)
+        .eq('saved.user_id', req.params.id)
+        .is('deleted_at', null)
+        .or(visibleFilter);
+
+      // Only saves that haven't been filed under a board
+      if (req.query.unorganized === 'true') {
+        query = query.is('saved.board_id', null);
+      }
 
-    const { data: savedPins, error } = await supabase
-      .from('pin_saves')
+      return query;
+    };
+
+    const { data: pins, error } = await applyCursor(
+      savedPinsQuery(`
+        ${pinFeedSelect},
+        saved:pin_saves!inner (
+          user_id
+        )
+      `),
+      cursor,
+      limit,
+      sortColumn
+    );
+
+    if (error) {
+      console.error('Get saved pins error:', error);
+      return res.status(500).json({ message: 'Failed to fetch saved pins' });
+    }
+
+    const { rows, nextCursor, hasMore } = cursorPage(pins, limit, sortColumn);
+
+    let total;
+    if (!cursor) {
+      const { count } = await savedPinsQuery('id, saved:pin_saves!inner(user_id)', {
+        count: 'exact',
+        head: true
+      });
+      total = count || 0;
+    }
+
+    const pinsWithState = await withViewerState(
+      rows.map(pin => ({ ...pin, saved: undefined })),
+      req.user.id
+    );
+
+    res.json({
+      pins: pinsWithState,
+      total,
+      nextCursor,
+      hasMore
+    });
+  } catch (error) {
+    console.error('Get saved pins error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get user's boards; secret boards are only listed for their owner
+router.get('/:id/boards', optionalAuth, async (req, res) => {
+  try {
+    let query = supabase
+      .from('boards')
       .select(`
-        pins!pin_saves_pin_id_fkey (
-          *,
-          users!pins_user_id_fkey (
-            id,
-            username,
-            first_name,
-            last_name,
-            avatar_url
-          ),
-          pin_likes!left (
-            user_id
-          ),
-          pin_saves!left (
-            user_id
+        *,
+        pin_saves (
+          count
+        ),
+        covers:pin_saves (
+          pins!pin_saves_pin_id_fkey!inner (
+            user_id,
+            image_url,
+            visibility,
+            deleted_at
           )
         )
       `)
       .eq('user_id', req.params.id)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .is('covers.pins.deleted_at', null);
+
+    if (req.params.id !== req.user?.id) {
+      query = query.eq('is_secret', false);
+    }
+
+    const { data: boards, error } = await query
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: false, referencedTable: 'covers' })
+      .limit(3, { referencedTable: 'covers' });
 
     if (error) {
-      return res.status(500).json({ message: 'Failed to fetch saved pins' });
+      return res.status(500).json({ message: 'Failed to fetch boards' });
     }
 
-    const pins = savedPins.map(save => ({
-      ...save.pins,
-      likes_count: save.pins.pin_likes.length,
-      saves_count: save.pins.pin_saves.length,
-      pin_likes: undefined,
-      pin_saves: undefined
+    // Covers never show pins the viewer couldn't open
+    const audience = await getPinAudience(req.user?.id);
+
+    const boardsWithCovers = boards.map(board => ({
+      ...board,
+      pins_count: board.pin_saves[0]?.count || 0,
+      cover_images: board.covers
+        .filter(cover => isPinVisible(cover.pins, audience))
+        .map(cover => cover.pins.image_url),
+      pin_saves: undefined,
+      covers: undefined
     }));
 
-    res.json({
-      pins,
-      page,
-      hasMore: savedPins.length === limit
-    });
+    res.json({ boards: boardsWithCovers });
   } catch (error) {
-    console.error('Get saved pins error:', error);
+    console.error('Get user boards error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get user's followers
+router.get('/:id/followers', optionalAuth, async (req, res) => {
+  try {
+    await sendFollowList(req, res, 'followers');
+  } catch (error) {
+    console.error('Get followers error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get users this user follows
+router.get('/:id/following', optionalAuth, async (req, res) => {
+  try {
+    await sendFollowList(req, res, 'following');
+  } catch (error) {
+    console.error('Get following error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
@@ -199,8 +569,15 @@ router.post('/:id/follow', authenticateToken, async (req, res) => {
         return res.status(500).json({ message: 'Failed to unfollow user' });
       }
 
+      await removeNotification({ recipientId: targetUserId, actorId: currentUserId, type: 'follow' });
+
       res.json({ message: 'User unfollowed', following: false });
     } else {
+      // Neither side of a block can follow the other
+      if (await isBlockedBetween(currentUserId, targetUserId)) {
+        return res.status(403).json({ message: 'You can\'t follow this user' });
+      }
+
       // Follow
       const { error } = await supabase
         .from('user_follows')
@@ -210,6 +587,8 @@ router.post('/:id/follow', authenticateToken, async (req, res) => {
         return res.status(500).json({ message: 'Failed to follow user' });
       }
 
+      await createNotification({ recipientId: targetUserId, actorId: currentUserId, type: 'follow' });
+
       res.json({ message: 'User followed', following: true });
     }
   } catch (error) {
@@ -218,4 +597,122 @@ router.post('/:id/follow', authenticateToken, async (req, res) => {
   }
 });
 
+// Block/Unblock user. Blocking also ends any follow between the two users.
+router.post('/:id/block', authenticateToken, async (req, res) => {
+  try {
+    const targetUserId = req.params.id;
+    const currentUserId = req.user.id;
+
+    if (targetUserId === currentUserId) {
+      return res.status(400).json({ message: 'Cannot block yourself' });
+    }
+
+    const { data: targetUser, error: userError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('id', targetUserId)
+      .single();
+
+    if (userError || !targetUser) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    // Unblocking deletes the row if there is one; otherwise this is a block
+    const { data: removed, error: unblockError } = await supabase
+      .from('user_blocks')
+      .delete()
+      .eq('blocker_id', currentUserId)
+      .eq('blocked_id', targetUserId)
+      .select('id');
+
+    if (unblockError) {
+      return res.status(500).json({ message: 'Failed to unblock user' });
+    }
+
+    if (removed.length > 0) {
+      return res.json({ message: 'User unblocked', blocked: false });
+    }
+
+    const { error } = await supabase
+      .from('user_blocks')
+      .insert([{ blocker_id: currentUserId, blocked_id: targetUserId }]);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to block user' });
+    }
+
+    const { error: followsError } = await supabase
+      .from('user_follows')
+      .delete()
+      .or(
+        `and(follower_id.eq.${currentUserId},following_id.eq.${targetUserId}),` +
+        `and(follower_id.eq.${targetUserId},following_id.eq.${currentUserId})`
+      );
+
+    if (followsError) {
+      console.error('Remove follows on block error:', followsError);
+    }
+
+    await Promise.all([
+      removeNotification({ recipientId: targetUserId, actorId: currentUserId, type: 'follow' }),
+      removeNotification({ recipientId: currentUserId, actorId: targetUserId, type: 'follow' })
+    ]);
+
+    res.json({ message: 'User blocked', blocked: true });
+  } catch (error) {
+    console.error('Block user error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Mute/Unmute user. Muted users' pins leave the current user's feeds and search results.
+router.post('/:id/mute', authenticateToken, async (req, res) => {
+  try {
+    const targetUserId = req.params.id;
+    const currentUserId = req.user.id;
+
+    if (targetUserId === currentUserId) {
+      return res.status(400).json({ message: 'Cannot mute yourself' });
+    }
+
+    const { data: targetUser, error: userError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('id', targetUserId)
+      .single();
+
+    if (userError || !targetUser) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const { data: removed, error: unmuteError } = await supabase
+      .from('user_mutes')
+      .delete()
+      .eq('muter_id', currentUserId)
+      .eq('muted_id', targetUserId)
+      .select('id');
+
+    if (unmuteError) {
+      return res.status(500).json({ message: 'Failed to unmute user' });
+    }
+
+    if (removed.length > 0) {
+      return res.json({ message: 'User unmuted', muted: false });
+    }
+
+    const { error } = await supabase
+      .from('user_mutes')
+      .insert([{ muter_id: currentUserId, muted_id: targetUserId }]);
+
+    if (error) {
+      return res.status(500).json({ message: 'Failed to mute user' });
+    }
+
+    res.json({ message: 'User muted', muted: true });
+  } catch (error) {
+    console.error('Mute user error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,9 +1,24 @@
 import express from 'express';
 import cors from 'cors';
+import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 import authRoutes from './routes/auth.js';
+import oauthRoutes from './routes/oauth.js';
 import pinRoutes from './routes/pins.js';
+import commentRoutes from './routes/comments.js';
 import userRoutes from './routes/users.js';
+import boardRoutes from './routes/boards.js';
+import searchRoutes from './routes/search.js';
+import categoryRoutes from './routes/categories.js';
+import tagRoutes from './routes/tags.js';
+import notificationRoutes from './routes/notifications.js';
+import eventRoutes from './routes/events.js';
+import conversationRoutes from './routes/conversations.js';
+import reportRoutes from './routes/reports.js';
+import adminRoutes from './routes/admin.js';
+import { startPurgeJob } from './jobs/purgeDeletedPins.js';
+import { startLoginAttemptPurgeJob } from './jobs/purgeLoginAttempts.js';
+import { clientUrl } from './config/client.js';
 
 // Load environment variables
 dotenv.config();
@@ -12,14 +27,30 @@ const app = express();
 const PORT = process.env.PORT || 5000;
 
 // Middleware
-app.use(cors());
+// Credentials are allowed so the browser sends the refresh cookie to /api/auth
+app.use(cors({
+  origin: clientUrl,
+  credentials: true
+}));
+app.use(cookieParser());
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 // Routes
+app.use('/api/auth/oauth', oauthRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/pins/:id/comments', commentRoutes);
 app.use('/api/pins', pinRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/boards', boardRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/conversations', conversationRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -39,4 +70,6 @@ app.use('*', (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  startPurgeJob();
+  startLoginAttemptPurgeJob();
 });
\ No newline at end of file
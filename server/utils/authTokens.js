@@ -0,0 +1,59 @@
+import { createHash, randomBytes } from 'crypto';
+import { supabase } from '../config/database.js';
+
+export const TOKEN_TTL_MS = {
+  password_reset: 60 * 60 * 1000,
+  email_verification: 24 * 60 * 60 * 1000
+};
+
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+
+// Create a single-use emailed token. Earlier unused tokens for the same purpose stop
+// working, so only the newest email's link is valid.
+export const issueAuthToken = async (userId, purpose) => {
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await supabase
+    .from('auth_tokens')
+    .update({ used_at: now.toISOString() })
+    .eq('user_id', userId)
+    .eq('purpose', purpose)
+    .is('used_at', null);
+
+  const { error } = await supabase
+    .from('auth_tokens')
+    .insert([{
+      user_id: userId,
+      purpose,
+      token_hash: hashToken(token),
+      expires_at: new Date(now.getTime() + TOKEN_TTL_MS[purpose]).toISOString()
+    }]);
+
+  if (error) {
+    throw error;
+  }
+
+  return token;
+};
+
+// Mark a token used and return its user id, or null if it is unknown, used or expired
+export const consumeAuthToken = async (token, purpose) => {
+  const now = new Date().toISOString();
+
+  // The used_at filter makes two simultaneous uses of one token succeed only once
+  const { data: consumed, error } = await supabase
+    .from('auth_tokens')
+    .update({ used_at: now })
+    .eq('token_hash', hashToken(token))
+    .eq('purpose', purpose)
+    .is('used_at', null)
+    .gt('expires_at', now)
+    .select('user_id');
+
+  if (error) {
+    throw error;
+  }
+
+  return consumed[0]?.user_id || null;
+};
@@ -0,0 +1,66 @@
+import { supabase } from '../config/database.js';
+
+// Users the given user blocked or was blocked by; a block hides both people from each other
+export const getBlockedIds = async (userId) => {
+  if (!userId) {
+    return [];
+  }
+
+  const { data: blocks, error } = await supabase
+    .from('user_blocks')
+    .select('blocker_id, blocked_id')
+    .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`);
+
+  if (error) {
+    throw error;
+  }
+
+  return [...new Set(blocks.map(block =>
+    block.blocker_id === userId ? block.blocked_id : block.blocker_id
+  ))];
+};
+
+// Users whose pins the given user muted out of their feeds
+export const getMutedIds = async (userId) => {
+  if (!userId) {
+    return [];
+  }
+
+  const { data: mutes, error } = await supabase
+    .from('user_mutes')
+    .select('muted_id')
+    .eq('muter_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return mutes.map(mute => mute.muted_id);
+};
+
+// Whether either user blocked the other
+export const isBlockedBetween = async (userId, otherUserId) => {
+  if (!userId || !otherUserId) {
+    return false;
+  }
+
+  const { data: block, error } = await supabase
+    .from('user_blocks')
+    .select('id')
+    .or(
+      `and(blocker_id.eq.${userId},blocked_id.eq.${otherUserId}),` +
+      `and(blocker_id.eq.${otherUserId},blocked_id.eq.${userId})`
+    )
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return !!block;
+};
+
+// Leave out rows written by any of the given users
+export const excludeAuthors = (query, userIds, column = 'user_id') =>
+  userIds.length > 0 ? query.not(column, 'in', `(${userIds.join(',')})`) : query;
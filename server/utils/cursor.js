@@ -0,0 +1,54 @@
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Opaque keyset cursor over (created_at, id), led by the sort column when there is one
+export const encodeCursor = (row, sortColumn = null) => {
+  const parts = sortColumn ? [row[sortColumn], row.created_at, row.id] : [row.created_at, row.id];
+  return Buffer.from(parts.join('|')).toString('base64url');
+};
+
+export const decodeCursor = (cursor, sortColumn = null) => {
+  const parts = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const [sortValue, createdAt, id] = sortColumn ? parts : [null, ...parts];
+
+  if (sortColumn && !/^\d+$/.test(sortValue || '')) {
+    return null;
+  }
+  if (!createdAt || isNaN(Date.parse(createdAt)) || !UUID_PATTERN.test(id || '')) {
+    return null;
+  }
+  return { sortValue: sortColumn ? Number(sortValue) : null, createdAt, id };
+};
+
+// Order by the sort column (descending) then newest first, and continue strictly after
+// the last row of the previous page. Fetches one extra row so callers can tell whether
+// another page exists.
+export const applyCursor = (query, cursor, limit, sortColumn = null) => {
+  let paged = sortColumn ? query.order(sortColumn, { ascending: false }) : query;
+  paged = paged
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (cursor) {
+    const afterNewest =
+      `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`;
+
+    paged = paged.or(sortColumn
+      ? `${sortColumn}.lt.${cursor.sortValue},and(${sortColumn}.eq.${cursor.sortValue},or(${afterNewest}))`
+      : afterNewest);
+  }
+
+  return paged;
+};
+
+// Trim the extra row fetched by applyCursor and build the page response fields
+export const cursorPage = (rows, limit, sortColumn = null) => {
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+
+  return {
+    rows: pageRows,
+    nextCursor: hasMore ? encodeCursor(pageRows[pageRows.length - 1], sortColumn) : null,
+    hasMore
+  };
+};
@@ -0,0 +1,89 @@
+import { supabase } from '../config/database.js';
+
+// Failed attempts one IP may make across all accounts (credential stuffing)
+const IP_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_IP = 20;
+
+// Failures one account may take before it locks; each further failure doubles the lockout
+const LOCKOUT_THRESHOLD = 5;
+const BASE_LOCKOUT = '1 minute';
+const MAX_LOCKOUT = '1 hour';
+
+// Seconds until this IP may try again, or 0
+export const ipRetryAfter = async (ip) => {
+  const since = new Date(Date.now() - IP_WINDOW_MS).toISOString();
+
+  const { data: failures, error } = await supabase
+    .from('login_attempts')
+    .select('created_at')
+    .eq('ip_address', ip)
+    .eq('succeeded', false)
+    .gt('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(MAX_FAILURES_PER_IP);
+
+  if (error) {
+    throw error;
+  }
+
+  if (failures.length < MAX_FAILURES_PER_IP) {
+    return 0;
+  }
+
+  // The window reopens as the oldest counted failure ages out of it
+  const oldest = new Date(failures[failures.length - 1].created_at).getTime();
+  return Math.max(1, Math.ceil((oldest + IP_WINDOW_MS - Date.now()) / 1000));
+};
+
+// Seconds until a locked account may try again, or 0
+export const accountRetryAfter = (user) => {
+  if (!user.locked_until) {
+    return 0;
+  }
+  return Math.max(0, Math.ceil((new Date(user.locked_until).getTime() - Date.now()) / 1000));
+};
+
+export const recordLoginAttempt = async ({ ip, email, succeeded }) => {
+  const { error } = await supabase
+    .from('login_attempts')
+    .insert([{ ip_address: ip, email: email || null, succeeded }]);
+
+  if (error) {
+    console.error('Record login attempt error:', error);
+  }
+};
+
+// Count a wrong password or code against the account
+export const registerFailure = async (userId) => {
+  const { error } = await supabase.rpc('register_failed_login', {
+    target_user_id: userId,
+    lockout_threshold: LOCKOUT_THRESHOLD,
+    base_lockout: BASE_LOCKOUT,
+    max_lockout: MAX_LOCKOUT
+  });
+
+  if (error) {
+    console.error('Register failed login error:', error);
+  }
+};
+
+export const clearFailures = async (userId) => {
+  const { error } = await supabase
+    .from('users')
+    .update({ failed_login_count: 0, locked_until: null })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Clear failed logins error:', error);
+  }
+};
+
+export const tooManyAttempts = (res, retryAfter) => {
+  const minutes = Math.ceil(retryAfter / 60);
+
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    message: `Too many attempts. Try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.`,
+    retryAfter
+  });
+};
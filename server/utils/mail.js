@@ -0,0 +1,35 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Transports take { to, subject, text } and deliver it. MAIL_TRANSPORT picks one by
+// name; `console` and `file` are built in for development, and a real provider (SMTP,
+// an email API) is plugged in with registerMailTransport at startup.
+const transports = {
+  console: async ({ to, subject, text }) => {
+    console.log(`\n--- Mail to ${to} ---\nSubject: ${subject}\n\n${text}\n---\n`);
+  },
+
+  // One file per message under MAIL_DIR, for when the console is too noisy
+  file: async ({ to, subject, text }) => {
+    const dir = process.env.MAIL_DIR || path.resolve('tmp/mail');
+    await mkdir(dir, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${to.replace(/[^\w.@-]/g, '_')}.txt`;
+    await writeFile(path.join(dir, fileName), `To: ${to}\nSubject: ${subject}\n\n${text}\n`);
+  }
+};
+
+export const registerMailTransport = (name, send) => {
+  transports[name] = send;
+};
+
+export const sendMail = async (message) => {
+  const name = process.env.MAIL_TRANSPORT || 'console';
+  const transport = transports[name];
+
+  if (!transport) {
+    throw new Error(`Unknown mail transport "${name}"`);
+  }
+
+  await transport(message);
+};
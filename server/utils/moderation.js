@@ -0,0 +1,27 @@
+import { supabase } from '../config/database.js';
+
+// Record a moderator action in the audit log. The action itself has already happened,
+// so a failure here is logged rather than undoing it.
+export const logModeratorAction = async ({
+  moderatorId,
+  action,
+  pinId = null,
+  targetUserId = null,
+  reportId = null,
+  details = {}
+}) => {
+  const { error } = await supabase
+    .from('moderation_actions')
+    .insert([{
+      moderator_id: moderatorId,
+      action,
+      pin_id: pinId,
+      target_user_id: targetUserId,
+      report_id: reportId,
+      details
+    }]);
+
+  if (error) {
+    console.error('Log moderator action error:', error);
+  }
+};
@@ -0,0 +1,48 @@
+import { supabase } from '../config/database.js';
+import { publishToUser } from './realtime.js';
+
+// Record that actorId did something recipientId should hear about. Notifications are a
+// side effect of the action, so failures are logged rather than failing the request.
+export const createNotification = async ({ recipientId, actorId, type, pinId = null, commentId = null }) => {
+  if (!recipientId || recipientId === actorId) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert([{
+      recipient_id: recipientId,
+      actor_id: actorId,
+      type,
+      pin_id: pinId,
+      comment_id: commentId
+    }]);
+
+  if (error) {
+    console.error('Create notification error:', error);
+    return;
+  }
+
+  publishToUser(recipientId, 'notification', { type });
+};
+
+// Withdraw a notification when its action is undone (unlike, unsave, unfollow)
+export const removeNotification = async ({ recipientId, actorId, type, pinId = null }) => {
+  let query = supabase
+    .from('notifications')
+    .delete()
+    .eq('recipient_id', recipientId)
+    .eq('actor_id', actorId)
+    .eq('type', type);
+
+  query = pinId ? query.eq('pin_id', pinId) : query.is('pin_id', null);
+
+  const { error } = await query;
+
+  if (error) {
+    console.error('Remove notification error:', error);
+    return;
+  }
+
+  publishToUser(recipientId, 'notification', { type });
+};
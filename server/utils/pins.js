@@ -0,0 +1,176 @@
+import { supabase } from '../config/database.js';
+import { getPinWatchers, publishPinUpdate } from './realtime.js';
+import { getBlockedIds, isBlockedBetween } from './blocks.js';
+
+// Pin columns (including the likes/saves counters) plus the author
+export const pinFeedSelect = `
+  *,
+  users!pins_user_id_fkey (
+    id,
+    username,
+    first_name,
+    last_name,
+    avatar_url
+  )
+`;
+
+// Mark which pins the viewer has liked and saved, loading only the viewer's own rows
+export const withViewerState = async (pins, viewerId) => {
+  if (!viewerId || pins.length === 0) {
+    return pins.map(pin => ({ ...pin, liked_by_me: false, saved_by_me: false }));
+  }
+
+  const pinIds = pins.map(pin => pin.id);
+
+  const [{ data: likes, error: likesError }, { data: saves, error: savesError }] = await Promise.all([
+    supabase
+      .from('pin_likes')
+      .select('pin_id')
+      .eq('user_id', viewerId)
+      .in('pin_id', pinIds),
+    supabase
+      .from('pin_saves')
+      .select('pin_id')
+      .eq('user_id', viewerId)
+      .in('pin_id', pinIds)
+  ]);
+
+  if (likesError || savesError) {
+    throw likesError || savesError;
+  }
+
+  const likedIds = new Set(likes.map(like => like.pin_id));
+  const savedIds = new Set(saves.map(save => save.pin_id));
+
+  return pins.map(pin => ({
+    ...pin,
+    liked_by_me: likedIds.has(pin.id),
+    saved_by_me: savedIds.has(pin.id)
+  }));
+};
+
+// Sort options for pin lists, mapped to the counter they order by
+export const PIN_SORT_COLUMNS = {
+  newest: null,
+  most_liked: 'likes_count',
+  most_saved: 'saves_count'
+};
+
+// Broadcast a pin's current like/save counters to everyone watching it who may still
+// see it; the pin could have been restricted, or a block added, since they subscribed.
+// The like or save is already stored, so failures are logged rather than failing it.
+export const publishPinCounts = async (pinId) => {
+  try {
+    const watcherIds = getPinWatchers(pinId);
+    if (watcherIds.length === 0) {
+      return;
+    }
+
+    const { data: pin, error } = await supabase
+      .from('pins')
+      .select('user_id, visibility, deleted_at, likes_count, saves_count')
+      .eq('id', pinId)
+      .single();
+
+    if (error || !pin) {
+      console.error('Publish pin counts error:', error);
+      return;
+    }
+
+    if (pin.deleted_at) {
+      return;
+    }
+
+    const allowed = await Promise.all(watcherIds.map(viewerId => canViewPin(pin, viewerId)));
+
+    publishPinUpdate(
+      pinId,
+      { likes_count: pin.likes_count, saves_count: pin.saves_count },
+      watcherIds.filter((_, index) => allowed[index])
+    );
+  } catch (error) {
+    console.error('Publish pin counts error:', error);
+  }
+};
+
+// Who can see a pin: everyone, people who follow its owner, or only the owner
+export const PIN_VISIBILITIES = ['public', 'followers', 'private'];
+
+// The people a viewer follows, which decides the followers-only pins they can see, and
+// the people on either side of a block, whose pins they can't see at all
+export const getPinAudience = async (viewerId) => {
+  if (!viewerId) {
+    return { viewerId: null, followingIds: [], blockedIds: [] };
+  }
+
+  const [{ data: follows, error }, blockedIds] = await Promise.all([
+    supabase
+      .from('user_follows')
+      .select('following_id')
+      .eq('follower_id', viewerId),
+    getBlockedIds(viewerId)
+  ]);
+
+  if (error) {
+    throw error;
+  }
+
+  return { viewerId, followingIds: follows.map(follow => follow.following_id), blockedIds };
+};
+
+// PostgREST `or` filter matching the pins an audience may see
+export const visiblePinsFilter = ({ viewerId, followingIds, blockedIds }) => {
+  const filters = ['visibility.eq.public'];
+
+  if (viewerId) {
+    filters.push(`user_id.eq.${viewerId}`);
+  }
+  if (followingIds.length > 0) {
+    filters.push(`and(visibility.eq.followers,user_id.in.(${followingIds.join(',')}))`);
+  }
+
+  if (blockedIds.length === 0) {
+    return filters.join(',');
+  }
+
+  // Still a single `or` condition, so callers don't need to know about blocks
+  return `and(user_id.not.in.(${blockedIds.join(',')}),or(${filters.join(',')}))`;
+};
+
+// Pins in their undo window are already gone for everyone
+export const isPinVisible = (pin, { viewerId, followingIds, blockedIds }) =>
+  !pin.deleted_at &&
+  !blockedIds.includes(pin.user_id) && (
+    pin.visibility === 'public' ||
+    pin.user_id === viewerId ||
+    (pin.visibility === 'followers' && followingIds.includes(pin.user_id))
+  );
+
+// Visibilities of one owner's pins that the viewer may see; none across a block
+export const visibilitiesFor = async (ownerId, viewerId) => {
+  if (viewerId && viewerId === ownerId) {
+    return PIN_VISIBILITIES;
+  }
+
+  if (await isBlockedBetween(ownerId, viewerId)) {
+    return [];
+  }
+
+  if (viewerId) {
+    const { data: follow } = await supabase
+      .from('user_follows')
+      .select('id')
+      .eq('follower_id', viewerId)
+      .eq('following_id', ownerId)
+      .maybeSingle();
+
+    if (follow) {
+      return ['public', 'followers'];
+    }
+  }
+
+  return ['public'];
+};
+
+export const canViewPin = async (pin, viewerId) =>
+  (await visibilitiesFor(pin.user_id, viewerId)).includes(pin.visibility);
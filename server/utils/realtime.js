@@ -0,0 +1,83 @@
+import { randomUUID } from 'crypto';
+
+// In-process hub for server-sent events. Every open stream lives in this process, so
+// no external broker is needed (and a multi-instance deploy would need one added).
+const connections = new Map();
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+export const MAX_WATCHED_PINS = 500;
+
+const send = (res, event, data) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Register an open SSE response; userId and sessionId are null for anonymous viewers
+export const openConnection = (res, userId, sessionId = null) => {
+  const id = randomUUID();
+  const connection = { res, userId, sessionId, pinIds: new Set() };
+  connections.set(id, connection);
+
+  // Comments keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    connections.delete(id);
+  });
+
+  send(res, 'ready', { connectionId: id });
+  return id;
+};
+
+// The open connection with this id, or null once it has closed
+export const getConnection = (connectionId) => connections.get(connectionId) || null;
+
+// Replace the set of pins a connection wants engagement updates for
+export const watchPins = (connectionId, pinIds) => {
+  const connection = connections.get(connectionId);
+  if (!connection) {
+    return false;
+  }
+
+  connection.pinIds = new Set(pinIds.slice(0, MAX_WATCHED_PINS));
+  return true;
+};
+
+// Viewers (null for anonymous ones) with a stream watching the pin
+export const getPinWatchers = (pinId) => {
+  const viewerIds = new Set();
+  for (const connection of connections.values()) {
+    if (connection.pinIds.has(pinId)) {
+      viewerIds.add(connection.userId);
+    }
+  }
+  return [...viewerIds];
+};
+
+// Push new counts to the given viewers among everyone looking at the pin
+export const publishPinUpdate = (pinId, updates, viewerIds) => {
+  for (const connection of connections.values()) {
+    if (connection.pinIds.has(pinId) && viewerIds.includes(connection.userId)) {
+      send(connection.res, 'pin', { pinId, ...updates });
+    }
+  }
+};
+
+// Tell a user's open tabs that their notifications changed
+export const publishToUser = (userId, event, data) => {
+  for (const connection of connections.values()) {
+    if (connection.userId === userId) {
+      send(connection.res, event, data);
+    }
+  }
+};
+
+// End the streams opened with a session that has just been revoked, or with any of a
+// user's sessions; the client reconnects anonymously or after refreshing its token
+export const closeConnections = ({ sessionId, userId }) => {
+  for (const connection of connections.values()) {
+    if ((!sessionId || connection.sessionId === sessionId) && (!userId || connection.userId === userId)) {
+      connection.res.end();
+    }
+  }
+};
@@ -0,0 +1,160 @@
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { supabase } from '../config/database.js';
+import { closeConnections } from './realtime.js';
+
+export const REFRESH_COOKIE = 'refresh_token';
+
+const ACCESS_TOKEN_TTL = '15m';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Two tabs refreshing at once both send the same cookie; the slower one is told to
+// retry (the browser already holds the rotated cookie) instead of being treated as theft
+const ROTATION_GRACE_MS = 10 * 1000;
+
+const refreshCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  // Only the auth routes ever need to see it
+  path: '/api/auth'
+};
+
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+
+const generateAccessToken = (userId, sessionId) =>
+  jwt.sign({ userId, sessionId }, process.env.JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+const setRefreshCookie = (res, refreshToken) => {
+  res.cookie(REFRESH_COOKIE, refreshToken, { ...refreshCookieOptions, maxAge: SESSION_TTL_MS });
+};
+
+export const clearRefreshCookie = (res) => {
+  res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+};
+
+// Start a session for a freshly authenticated user; returns the access token
+export const startSession = async (req, res, userId) => {
+  const refreshToken = randomBytes(32).toString('base64url');
+
+  const { data: session, error } = await supabase
+    .from('sessions')
+    .insert([{
+      user_id: userId,
+      refresh_token_hash: hashToken(refreshToken),
+      user_agent: req.get('user-agent') || null,
+      ip_address: req.ip || null,
+      expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString()
+    }])
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  setRefreshCookie(res, refreshToken);
+  return generateAccessToken(userId, session.id);
+};
+
+// Swap a refresh token for a new one. Resolves to { userId, accessToken } on success,
+// { retry: true } inside the rotation grace window, or null when the token is no good.
+export const rotateSession = async (req, res, refreshToken) => {
+  const tokenHash = hashToken(refreshToken);
+
+  const { data: session } = await supabase
+    .from('sessions')
+    .select('*')
+    .eq('refresh_token_hash', tokenHash)
+    .maybeSingle();
+
+  if (!session) {
+    // A token that was already rotated away is being replayed
+    const { data: rotated } = await supabase
+      .from('sessions')
+      .select('id, last_used_at, revoked_at')
+      .eq('previous_token_hash', tokenHash)
+      .maybeSingle();
+
+    if (rotated && !rotated.revoked_at) {
+      if (Date.now() - new Date(rotated.last_used_at).getTime() < ROTATION_GRACE_MS) {
+        return { retry: true };
+      }
+      await revokeSessions({ sessionId: rotated.id });
+    }
+    return null;
+  }
+
+  if (session.revoked_at || new Date(session.expires_at) <= new Date()) {
+    return null;
+  }
+
+  const nextToken = randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  // Matching on the old hash makes concurrent rotations of one token race safely
+  const { data: updated, error } = await supabase
+    .from('sessions')
+    .update({
+      refresh_token_hash: hashToken(nextToken),
+      previous_token_hash: tokenHash,
+      user_agent: req.get('user-agent') || session.user_agent,
+      ip_address: req.ip || session.ip_address,
+      last_used_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + SESSION_TTL_MS).toISOString()
+    })
+    .eq('id', session.id)
+    .eq('refresh_token_hash', tokenHash)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  if (updated.length === 0) {
+    return { retry: true };
+  }
+
+  setRefreshCookie(res, nextToken);
+  return { userId: session.user_id, accessToken: generateAccessToken(session.user_id, session.id) };
+};
+
+// Revoke one session (checked against its owner when userId is given too), or every
+// session of a user
+export const revokeSessions = async ({ sessionId, userId }) => {
+  if (!sessionId && !userId) {
+    throw new Error('revokeSessions needs a session or a user');
+  }
+
+  let query = supabase
+    .from('sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .is('revoked_at', null);
+
+  if (sessionId) {
+    query = query.eq('id', sessionId);
+  }
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  // Open event streams were authenticated once, when they connected
+  closeConnections({ sessionId, userId });
+};
+
+// Find the session behind a refresh token without rotating it, e.g. for logout
+export const findSessionByRefreshToken = async (refreshToken) => {
+  const { data: session } = await supabase
+    .from('sessions')
+    .select('id, user_id')
+    .eq('refresh_token_hash', hashToken(refreshToken))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  return session || null;
+};
@@ -0,0 +1,88 @@
+import { supabase } from '../config/database.js';
+
+export const MAX_TAGS_PER_PIN = 10;
+
+const TAG_PATTERN = /^[a-z0-9_]{1,30}$/;
+const HASHTAG_PATTERN = /(?:^|\s)#([a-zA-Z0-9_]{1,30})\b/g;
+
+// Lowercase and drop the leading '#'; returns null for anything that isn't a valid tag
+export const normalizeTag = (value) => {
+  const name = String(value).trim().replace(/^#/, '').toLowerCase();
+  return TAG_PATTERN.test(name) ? name : null;
+};
+
+// Tags arrive from multipart forms as a JSON array or a comma separated string
+export const parseTagList = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+
+  let list = value;
+  if (typeof value === 'string') {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      list = value.split(',');
+    }
+  }
+
+  return Array.isArray(list) ? list : [list];
+};
+
+export const extractHashtags = (text) =>
+  [...(text || '').matchAll(HASHTAG_PATTERN)].map(match => match[1]);
+
+// Explicit tags plus any #hashtags in the description, deduplicated
+export const collectTags = (tags, description) => {
+  const names = [...parseTagList(tags), ...extractHashtags(description)]
+    .map(normalizeTag)
+    .filter(Boolean);
+
+  return [...new Set(names)].slice(0, MAX_TAGS_PER_PIN);
+};
+
+// Replace a pin's tags, creating any tags that don't exist yet. The new links are added
+// before the old ones are pruned, so a failure part way leaves extra tags, never none.
+export const syncPinTags = async (pinId, names) => {
+  let tags = [];
+
+  if (names.length > 0) {
+    const { data, error: tagsError } = await supabase
+      .from('tags')
+      .upsert(names.map(name => ({ name })), { onConflict: 'name' })
+      .select('id, name');
+
+    if (tagsError) {
+      throw tagsError;
+    }
+    tags = data;
+
+    const { error: linkError } = await supabase
+      .from('pin_tags')
+      .upsert(
+        tags.map(tag => ({ pin_id: pinId, tag_id: tag.id })),
+        { onConflict: 'pin_id,tag_id', ignoreDuplicates: true }
+      );
+
+    if (linkError) {
+      throw linkError;
+    }
+  }
+
+  let pruneQuery = supabase
+    .from('pin_tags')
+    .delete()
+    .eq('pin_id', pinId);
+
+  if (tags.length > 0) {
+    pruneQuery = pruneQuery.not('tag_id', 'in', `(${tags.map(tag => tag.id).join(',')})`);
+  }
+
+  const { error: pruneError } = await pruneQuery;
+
+  if (pruneError) {
+    throw pruneError;
+  }
+
+  return names;
+};
@@ -0,0 +1,197 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { supabase } from '../config/database.js';
+
+const ISSUER = 'Pinterest Clone';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the neighbouring time steps too, for clock drift between phone and server
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL = '5m';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer) => {
+  let bits = '';
+  for (const byte of buffer) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+
+  let encoded = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    encoded += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return encoded;
+};
+
+const base32Decode = (encoded) => {
+  let bits = '';
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    bits += BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0');
+  }
+
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+// RFC 4226 HOTP, which TOTP evaluates at the current time step
+const hotp = (key, counter) => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac('sha1', key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const value = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(value % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+const sameCode = (a, b) => a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+export const generateSecret = () => base32Encode(randomBytes(20));
+
+// The URL authenticator apps read from the QR code
+export const otpauthUrl = (secret, accountName) => {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Returns the time step the code belongs to, or null. Steps at or before lastUsedStep
+// are refused so an observed code can't be replayed.
+export const verifyTotp = (secret, code, lastUsedStep = null) => {
+  const normalized = String(code || '').replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+  for (let step = currentStep - DRIFT_STEPS; step <= currentStep + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    if (sameCode(hotp(key, step), normalized)) {
+      return step;
+    }
+  }
+  return null;
+};
+
+const normalizeRecoveryCode = (code) => String(code || '').replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code) => createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+// Replace the user's recovery codes; the plain codes are only ever shown once
+export const generateRecoveryCodes = async (userId) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  const { error: deleteError } = await supabase
+    .from('user_recovery_codes')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteError) {
+    throw deleteError;
+  }
+
+  const { error } = await supabase
+    .from('user_recovery_codes')
+    .insert(codes.map(code => ({ user_id: userId, code_hash: hashRecoveryCode(code) })));
+
+  if (error) {
+    throw error;
+  }
+
+  return codes;
+};
+
+// Two-factor settings for a user, or null when they never started enrolment
+export const getTwoFactor = async (userId) => {
+  const { data: twoFactor, error } = await supabase
+    .from('user_two_factor')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return twoFactor;
+};
+
+export const isTwoFactorEnabled = async (userId) => !!(await getTwoFactor(userId))?.enabled_at;
+
+// Check a code from the authenticator app or an unused recovery code. Either one is
+// consumed, so the same code never works twice.
+export const verifySecondFactor = async (userId, code) => {
+  const twoFactor = await getTwoFactor(userId);
+
+  if (!twoFactor?.enabled_at) {
+    return false;
+  }
+
+  const step = verifyTotp(twoFactor.secret, code, twoFactor.last_used_step);
+
+  if (step !== null) {
+    // Only one request can move last_used_step past this step
+    let query = supabase
+      .from('user_two_factor')
+      .update({ last_used_step: step })
+      .eq('user_id', userId);
+
+    query = twoFactor.last_used_step === null
+      ? query.is('last_used_step', null)
+      : query.eq('last_used_step', twoFactor.last_used_step);
+
+    const { data: updated, error } = await query.select('user_id');
+
+    if (error) {
+      throw error;
+    }
+    return updated.length > 0;
+  }
+
+  const { data: used, error } = await supabase
+    .from('user_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', hashRecoveryCode(code))
+    .is('used_at', null)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return used.length > 0;
+};
+
+// Proof that the password step passed, exchanged for a session with the second factor.
+// It has no sessionId, so it is never accepted as an access token.
+export const createChallengeToken = (userId) =>
+  jwt.sign({ userId, purpose: 'two_factor' }, process.env.JWT_SECRET, { expiresIn: CHALLENGE_TTL });
+
+export const verifyChallengeToken = (token) => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    return decoded.purpose === 'two_factor' ? decoded.userId : null;
+  } catch (error) {
+    return null;
+  }
+};
@@ -2,50 +2,156 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from './context/AuthContext';
+import { RealtimeProvider } from './context/RealtimeContext';
+import { NotificationProvider } from './context/NotificationContext';
 import ProtectedRoute from './components/ProtectedRoute';
 import Navbar from './components/Navbar';
+import VerifyEmailBanner from './components/VerifyEmailBanner';
 import HomePage from './pages/HomePage';
 import LoginPage from './pages/LoginPage';
 import SignupPage from './pages/SignupPage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
+import OAuthCallbackPage from './pages/OAuthCallbackPage';
+import TwoFactorChallengePage from './pages/TwoFactorChallengePage';
 import CreatePinPage from './pages/CreatePinPage';
+import EditPinPage from './pages/EditPinPage';
+import EditProfilePage from './pages/EditProfilePage';
+import SessionsPage from './pages/SessionsPage';
+import SecurityPage from './pages/SecurityPage';
+import BlockedUsersPage from './pages/BlockedUsersPage';
 import PinDetailsPage from './pages/PinDetailsPage';
 import ProfilePage from './pages/ProfilePage';
+import BoardPage from './pages/BoardPage';
+import SearchPage from './pages/SearchPage';
+import CategoryPage from './pages/CategoryPage';
+import TagPage from './pages/TagPage';
+import NotificationsPage from './pages/NotificationsPage';
+import MessagesPage from './pages/MessagesPage';
+import AdminPage from './pages/AdminPage';
 
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <div className="min-h-screen bg-gray-50">
-          <Navbar />
-          <main>
-            <Routes>
-              <Route path="/" element={<HomePage />} />
-              <Route path="/login" element={<LoginPage />} />
-              <Route path="/signup" element={<SignupPage />} />
-              <Route path="/pin/:id" element={<PinDetailsPage />} />
-              <Route path="/user/:id" element={<ProfilePage />} />
-              <Route
-                path="/create"
-                element={
-                  <ProtectedRoute>
-                    <CreatePinPage />
-                  </ProtectedRoute>
-                }
+      <RealtimeProvider>
+        <NotificationProvider>
+          <Router>
+            <div className="min-h-screen bg-gray-50">
+              <Navbar />
+              <VerifyEmailBanner />
+              <main>
+                <Routes>
+                  <Route path="/" element={<HomePage />} />
+                  <Route path="/login" element={<LoginPage />} />
+                  <Route path="/signup" element={<SignupPage />} />
+                  <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+                  <Route path="/reset-password" element={<ResetPasswordPage />} />
+                  <Route path="/verify-email" element={<VerifyEmailPage />} />
+                  <Route path="/oauth/callback" element={<OAuthCallbackPage />} />
+                  <Route path="/two-factor" element={<TwoFactorChallengePage />} />
+                  <Route path="/pin/:id" element={<PinDetailsPage />} />
+                  <Route path="/user/:id" element={<ProfilePage />} />
+                  <Route path="/user/:id/board/:boardId" element={<BoardPage />} />
+                  <Route path="/search" element={<SearchPage />} />
+                  <Route path="/category/:slug" element={<CategoryPage />} />
+                  <Route path="/tag/:name" element={<TagPage />} />
+                  <Route
+                    path="/create"
+                    element={
+                      <ProtectedRoute>
+                        <CreatePinPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/pin/:id/edit"
+                    element={
+                      <ProtectedRoute>
+                        <EditPinPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/settings/profile"
+                    element={
+                      <ProtectedRoute>
+                        <EditProfilePage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/settings/sessions"
+                    element={
+                      <ProtectedRoute>
+                        <SessionsPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/settings/security"
+                    element={
+                      <ProtectedRoute>
+                        <SecurityPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/settings/blocked"
+                    element={
+                      <ProtectedRoute>
+                        <BlockedUsersPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/notifications"
+                    element={
+                      <ProtectedRoute>
+                        <NotificationsPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/messages"
+                    element={
+                      <ProtectedRoute>
+                        <MessagesPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/messages/:conversationId"
+                    element={
+                      <ProtectedRoute>
+                        <MessagesPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin"
+                    element={
+                      <ProtectedRoute role="admin">
+                        <AdminPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                </Routes>
+              </main>
+              <Toaster
+                position="top-right"
+                toastOptions={{
+                  duration: 3000,
+                  style: {
+                    background: '#333',
+                    color: '#fff',
+                  },
+                }}
               />
-            </Routes>
-          </main>
-          <Toaster
-            position="top-right"
-            toastOptions={{
-              duration: 3000,
-              style: {
-                background: '#333',
-                color: '#fff',
-              },
-            }}
-          />
-        </div>
-      </Router>
+            </div>
+          </Router>
+        </NotificationProvider>
+      </RealtimeProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, LayoutGrid, Lock } from 'lucide-react';
+
+interface Board {
+  id: string;
+  user_id: string;
+  name: string;
+  is_secret?: boolean;
+  pins_count: number;
+  cover_images: string[];
+}
+
+interface BoardGridProps {
+  boards: Board[];
+  onMove?: (index: number, direction: -1 | 1) => void;
+}
+
+const BoardGrid: React.FC<BoardGridProps> = ({ boards, onMove }) => {
+  const handleMove = (e: React.MouseEvent, index: number, direction: -1 | 1) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onMove?.(index, direction);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+        {boards.map((board, index) => (
+          <Link
+            key={board.id}
+            to={`/user/${board.user_id}/board/${board.id}`}
+            className="group block"
+          >
+            {/* Cover collage */}
+            <div className="relative grid grid-cols-3 grid-rows-2 gap-0.5 h-40 rounded-2xl overflow-hidden bg-gray-200">
+              {board.cover_images.length > 0 ? (
+                <>
+                  <img
+                    src={board.cover_images[0]}
+                    alt={board.name}
+                    className="col-span-2 row-span-2 w-full h-full object-cover"
+                  />
+                  {[1, 2].map((i) => (
+                    board.cover_images[i] ? (
+                      <img
+                        key={i}
+                        src={board.cover_images[i]}
+                        alt=""
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <div key={i} className="bg-gray-100" />
+                    )
+                  ))}
+                </>
+              ) : (
+                <div className="col-span-3 row-span-2 flex items-center justify-center">
+                  <LayoutGrid size={32} className="text-gray-400" />
+                </div>
+              )}
+
+              {/* Reorder controls for the owner */}
+              {onMove && (
+                <div className="absolute bottom-2 right-2 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => handleMove(e, index, -1)}
+                    disabled={index === 0}
+                    className="p-1 bg-white bg-opacity-90 rounded-full hover:bg-opacity-100 disabled:opacity-40"
+                    title="Move left"
+                  >
+                    <ChevronLeft size={16} className="text-gray-700" />
+                  </button>
+                  <button
+                    onClick={(e) => handleMove(e, index, 1)}
+                    disabled={index === boards.length - 1}
+                    className="p-1 bg-white bg-opacity-90 rounded-full hover:bg-opacity-100 disabled:opacity-40"
+                    title="Move right"
+                  >
+                    <ChevronRight size={16} className="text-gray-700" />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="pt-2 px-1">
+              <h3 className="flex items-center space-x-1 font-semibold text-gray-900">
+                {board.is_secret && <Lock size={14} className="flex-shrink-0 text-gray-600" />}
+                <span className="truncate">{board.name}</span>
+              </h3>
+              <p className="text-xs text-gray-600">
+                {board.pins_count} {board.pins_count === 1 ? 'Pin' : 'Pins'}
+              </p>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BoardGrid;
@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, LayoutGrid } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+
+interface Board {
+  id: string;
+  name: string;
+  pins_count: number;
+  cover_images: string[];
+}
+
+interface BoardPickerProps {
+  pinId: string;
+  onSaved: (board: Board | null) => void;
+  onClose: () => void;
+}
+
+const BoardPicker: React.FC<BoardPickerProps> = ({ pinId, onSaved, onClose }) => {
+  const { user } = useAuth();
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newBoardName, setNewBoardName] = useState('');
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const fetchBoards = async () => {
+      try {
+        const response = await axios.get(`/users/${user?.id}/boards`);
+        setBoards(response.data.boards);
+      } catch (error) {
+        console.error('Error fetching boards:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBoards();
+  }, [user?.id]);
+
+  // Close when clicking anywhere outside the picker
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  const saveToBoard = async (board: Board | null) => {
+    setSaving(true);
+    try {
+      await axios.post(`/pins/${pinId}/save`, { boardId: board?.id });
+      onSaved(board);
+    } catch (error) {
+      console.error('Error saving pin:', error);
+      toast.error('Failed to save pin');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateBoard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBoardName.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await axios.post('/boards', { name: newBoardName.trim() });
+      setNewBoardName('');
+      await saveToBoard(response.data.board);
+    } catch (error) {
+      console.error('Error creating board:', error);
+      toast.error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to create board'
+      );
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      ref={pickerRef}
+      className="absolute right-0 top-full mt-2 z-30 w-72 bg-white rounded-2xl shadow-xl border border-gray-100 p-3 text-left"
+    >
+      <p className="text-center text-sm font-semibold text-gray-900 mb-3">Save to board</p>
+
+      <div className="max-h-64 overflow-y-auto space-y-1">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-red-600"></div>
+          </div>
+        ) : (
+          <>
+            {boards.map((board) => (
+              <button
+                key={board.id}
+                type="button"
+                disabled={saving}
+                onClick={() => saveToBoard(board)}
+                className="w-full flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+              >
+                {board.cover_images[0] ? (
+                  <img
+                    src={board.cover_images[0]}
+                    alt={board.name}
+                    className="w-10 h-10 rounded-lg object-cover"
+                  />
+                ) : (
+                  <div className="w-10 h-10 rounded-lg bg-gray-200 flex items-center justify-center">
+                    <LayoutGrid size={16} className="text-gray-400" />
+                  </div>
+                )}
+                <span className="text-sm font-medium text-gray-900 truncate">{board.name}</span>
+              </button>
+            ))}
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => saveToBoard(null)}
+              className="w-full p-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+              Save without a board
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Create board */}
+      <form onSubmit={handleCreateBoard} className="flex items-center space-x-2 border-t border-gray-200 pt-3 mt-2">
+        <input
+          type="text"
+          value={newBoardName}
+          onChange={(e) => setNewBoardName(e.target.value)}
+          placeholder="Create board"
+          maxLength={50}
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={saving || !newBoardName.trim()}
+          className="p-2 bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          <Plus size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default BoardPicker;
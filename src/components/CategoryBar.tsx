@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+
+interface Category {
+  slug: string;
+  name: string;
+  pins_count: number;
+  cover_image_url: string | null;
+}
+
+interface CategoryBarProps {
+  // Highlighted category; none means the unfiltered home feed
+  activeSlug?: string;
+}
+
+const CategoryBar: React.FC<CategoryBarProps> = ({ activeSlug }) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      const response = await axios.get('/categories');
+      setCategories(response.data.categories);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
+
+  if (categories.length === 0) {
+    return null;
+  }
+
+  const pillClass = (active: boolean) =>
+    `flex items-center space-x-2 flex-shrink-0 px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+      active ? 'bg-black text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+    }`;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-4">
+      <div className="flex space-x-2 overflow-x-auto pb-2">
+        <Link to="/" className={pillClass(!activeSlug)}>
+          All
+        </Link>
+        {categories.map((category) => (
+          <Link
+            key={category.slug}
+            to={`/category/${category.slug}`}
+            className={pillClass(category.slug === activeSlug)}
+          >
+            {category.cover_image_url && (
+              <img
+                src={category.cover_image_url}
+                alt=""
+                className="w-6 h-6 rounded-full object-cover"
+              />
+            )}
+            <span>{category.name}</span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryBar;
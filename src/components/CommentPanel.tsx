@@ -0,0 +1,410 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { MessageCircle } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+
+interface Comment {
+  id: string;
+  pin_id: string;
+  user_id: string;
+  parent_id: string | null;
+  root_id: string | null;
+  body: string;
+  created_at: string;
+  updated_at: string;
+  users: {
+    id: string;
+    username: string;
+    first_name: string;
+    last_name: string;
+    avatar_url: string;
+  };
+}
+
+interface Thread extends Comment {
+  replies: Comment[];
+}
+
+interface CommentPanelProps {
+  pinId: string;
+  pinOwnerId: string;
+}
+
+interface CommentItemProps {
+  comment: Comment;
+  replies: Comment[];
+  depth: number;
+  pinOwnerId: string;
+  onReply: (parentId: string, body: string) => Promise<boolean>;
+  onEdit: (commentId: string, body: string) => Promise<boolean>;
+  onDelete: (comment: Comment) => void;
+}
+
+// Deeper replies are still threaded but stop indenting past this level
+const MAX_INDENT_DEPTH = 3;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+
+const CommentItem: React.FC<CommentItemProps> = ({
+  comment,
+  replies,
+  depth,
+  pinOwnerId,
+  onReply,
+  onEdit,
+  onDelete,
+}) => {
+  const { user } = useAuth();
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [replyBody, setReplyBody] = useState('');
+  const [editBody, setEditBody] = useState(comment.body);
+
+  const isAuthor = user?.id === comment.user_id;
+  const canDelete = isAuthor || user?.id === pinOwnerId;
+  const children = replies.filter(reply => reply.parent_id === comment.id);
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await onReply(comment.id, replyBody)) {
+      setReplyBody('');
+      setIsReplying(false);
+    }
+  };
+
+  const handleEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await onEdit(comment.id, editBody)) {
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <div className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-8' : ''}>
+      <div className="flex space-x-3 py-2">
+        <Link to={`/user/${comment.users.id}`} className="flex-shrink-0">
+          <img
+            src={comment.users.avatar_url}
+            alt={comment.users.username}
+            className="w-8 h-8 rounded-full object-cover"
+          />
+        </Link>
+        <div className="flex-1 min-w-0">
+          {isEditing ? (
+            <form onSubmit={handleEdit} className="space-y-2">
+              <textarea
+                rows={2}
+                value={editBody}
+                onChange={(e) => setEditBody(e.target.value)}
+                maxLength={1000}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent resize-none"
+              />
+              <div className="flex space-x-2">
+                <button
+                  type="submit"
+                  disabled={!editBody.trim()}
+                  className="px-3 py-1 bg-red-600 text-white rounded-full text-xs font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditBody(comment.body);
+                    setIsEditing(false);
+                  }}
+                  className="px-3 py-1 text-xs text-gray-600 hover:text-gray-900 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <p className="text-sm text-gray-900 break-words">
+              <Link to={`/user/${comment.users.id}`} className="font-semibold mr-2 hover:underline">
+                {comment.users.username}
+              </Link>
+              {comment.body}
+            </p>
+          )}
+
+          <div className="flex items-center space-x-3 mt-1 text-xs text-gray-500">
+            <span>
+              {formatDate(comment.created_at)}
+              {comment.updated_at !== comment.created_at && ' (edited)'}
+            </span>
+            {user && (
+              <button
+                onClick={() => setIsReplying(!isReplying)}
+                className="font-medium hover:text-gray-900 transition-colors"
+              >
+                Reply
+              </button>
+            )}
+            {isAuthor && !isEditing && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="font-medium hover:text-gray-900 transition-colors"
+              >
+                Edit
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={() => onDelete(comment)}
+                className="font-medium hover:text-red-600 transition-colors"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+
+          {isReplying && (
+            <form onSubmit={handleReply} className="flex items-center space-x-2 mt-2">
+              <input
+                type="text"
+                autoFocus
+                value={replyBody}
+                onChange={(e) => setReplyBody(e.target.value)}
+                placeholder={`Reply to ${comment.users.username}`}
+                maxLength={1000}
+                className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-full focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+              <button
+                type="submit"
+                disabled={!replyBody.trim()}
+                className="px-3 py-1.5 bg-red-600 text-white rounded-full text-xs font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                Reply
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {children.map((child) => (
+        <CommentItem
+          key={child.id}
+          comment={child}
+          replies={replies}
+          depth={depth + 1}
+          pinOwnerId={pinOwnerId}
+          onReply={onReply}
+          onEdit={onEdit}
+          onDelete={onDelete}
+        />
+      ))}
+    </div>
+  );
+};
+
+const CommentPanel: React.FC<CommentPanelProps> = ({ pinId, pinOwnerId }) => {
+  const { user } = useAuth();
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [newComment, setNewComment] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    setThreads([]);
+    setLoading(true);
+    fetchComments(1, true);
+  }, [pinId]);
+
+  const fetchComments = async (pageNum: number, reset: boolean = false) => {
+    try {
+      const response = await axios.get(`/pins/${pinId}/comments?page=${pageNum}&limit=10`);
+
+      if (reset) {
+        setThreads(response.data.comments);
+      } else {
+        setThreads(prev => [...prev, ...response.data.comments]);
+      }
+
+      setTotal(response.data.total);
+      setHasMore(response.data.hasMore);
+      setPage(pageNum);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const postComment = async (body: string, parentId?: string) => {
+    if (!body.trim()) return false;
+
+    try {
+      const response = await axios.post(`/pins/${pinId}/comments`, {
+        body: body.trim(),
+        parentId,
+      });
+      const comment: Thread = response.data.comment;
+
+      if (comment.root_id) {
+        setThreads(prev => prev.map(thread =>
+          thread.id === comment.root_id
+            ? { ...thread, replies: [...thread.replies, comment] }
+            : thread
+        ));
+      } else {
+        setThreads(prev => [comment, ...prev]);
+      }
+      setTotal(prev => prev + (comment.root_id ? 0 : 1));
+      return true;
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      toast.error('Failed to post comment');
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPosting(true);
+    if (await postComment(newComment)) {
+      setNewComment('');
+    }
+    setPosting(false);
+  };
+
+  const handleEdit = async (commentId: string, body: string) => {
+    if (!body.trim()) return false;
+
+    try {
+      const response = await axios.put(`/pins/${pinId}/comments/${commentId}`, {
+        body: body.trim(),
+      });
+      const updated: Comment = response.data.comment;
+
+      setThreads(prev => prev.map(thread =>
+        thread.id === commentId
+          ? { ...thread, ...updated }
+          : {
+              ...thread,
+              replies: thread.replies.map(reply => reply.id === commentId ? updated : reply),
+            }
+      ));
+      return true;
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      toast.error('Failed to update comment');
+      return false;
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!window.confirm('Delete this comment and its replies?')) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/pins/${pinId}/comments/${comment.id}`);
+
+      if (!comment.root_id) {
+        setThreads(prev => prev.filter(thread => thread.id !== comment.id));
+        setTotal(prev => prev - 1);
+        return;
+      }
+
+      // Drop the reply and everything below it in its thread
+      setThreads(prev => prev.map(thread => {
+        if (thread.id !== comment.root_id) return thread;
+
+        // Replies are ordered oldest first, so parents are always seen before their children
+        const removed = new Set([comment.id]);
+        thread.replies.forEach(reply => {
+          if (reply.parent_id && removed.has(reply.parent_id)) removed.add(reply.id);
+        });
+
+        return { ...thread, replies: thread.replies.filter(reply => !removed.has(reply.id)) };
+      }));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error('Failed to delete comment');
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-6 mt-6">
+      <h2 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 mb-4">
+        <MessageCircle size={20} />
+        <span>
+          {total} {total === 1 ? 'Comment' : 'Comments'}
+        </span>
+      </h2>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-red-600"></div>
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No comments yet. Start the conversation!</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto mb-4">
+          {threads.map((thread) => (
+            <CommentItem
+              key={thread.id}
+              comment={thread}
+              replies={thread.replies}
+              depth={0}
+              pinOwnerId={pinOwnerId}
+              onReply={(parentId, body) => postComment(body, parentId)}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+            />
+          ))}
+          {hasMore && (
+            <button
+              onClick={() => fetchComments(page + 1)}
+              className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors py-2"
+            >
+              Load more comments
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* New comment */}
+      {user ? (
+        <form onSubmit={handleSubmit} className="flex items-center space-x-3">
+          <img
+            src={user.avatar_url}
+            alt={user.username}
+            className="w-8 h-8 rounded-full object-cover"
+          />
+          <input
+            type="text"
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            placeholder="Add a comment"
+            maxLength={1000}
+            className="flex-1 px-4 py-2 text-sm border border-gray-300 rounded-full focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={posting || !newComment.trim()}
+            className="px-4 py-2 bg-red-600 text-white rounded-full text-sm font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            Post
+          </button>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-500">
+          <Link to="/login" className="text-red-600 hover:underline">Log in</Link> to join the conversation
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CommentPanel;
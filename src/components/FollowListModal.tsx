@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { X } from 'lucide-react';
+import InfiniteScroll from 'react-infinite-scroll-component';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+
+interface FollowUser {
+  id: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  avatar_url: string;
+  is_following: boolean;
+}
+
+interface FollowListModalProps {
+  userId: string;
+  type: 'followers' | 'following';
+  onClose: () => void;
+  // Called when the current user follows or unfollows someone in the list
+  onFollowChange?: (following: boolean) => void;
+}
+
+const FollowListModal: React.FC<FollowListModalProps> = ({ userId, type, onClose, onFollowChange }) => {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<FollowUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(true);
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    fetchUsers(1, true);
+  }, [userId, type]);
+
+  const fetchUsers = async (pageNum: number, reset: boolean = false) => {
+    try {
+      const response = await axios.get(`/users/${userId}/${type}?page=${pageNum}&limit=20`);
+      const newUsers = response.data.users;
+
+      if (reset) {
+        setUsers(newUsers);
+      } else {
+        setUsers(prev => [...prev, ...newUsers]);
+      }
+
+      setTotal(response.data.total);
+      setHasMore(response.data.hasMore);
+      setPage(pageNum);
+    } catch (error) {
+      console.error(`Error fetching ${type}:`, error);
+      toast.error(`Failed to load ${type}`);
+      setHasMore(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = () => {
+    if (!loading && hasMore) {
+      fetchUsers(page + 1);
+    }
+  };
+
+  const handleFollow = async (target: FollowUser) => {
+    if (!currentUser) {
+      toast.error('Please log in to follow users');
+      return;
+    }
+
+    try {
+      const response = await axios.post(`/users/${target.id}/follow`);
+      const following = response.data.following;
+
+      setUsers(prev => prev.map(listed =>
+        listed.id === target.id ? { ...listed, is_following: following } : listed
+      ));
+      onFollowChange?.(following);
+    } catch (error) {
+      console.error('Error following user:', error);
+      toast.error('Failed to follow user');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black bg-opacity-50 flex items-center justify-center px-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-md w-full flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">
+            {type === 'followers' ? 'Followers' : 'Following'}
+            {!loading && <span className="text-gray-500 font-normal"> ({total})</span>}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div id="follow-list" className="overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : users.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">
+              {type === 'followers' ? 'No followers yet' : 'Not following anyone yet'}
+            </p>
+          ) : (
+            <InfiniteScroll
+              dataLength={users.length}
+              next={loadMore}
+              hasMore={hasMore}
+              scrollableTarget="follow-list"
+              loader={
+                <div className="flex justify-center py-4">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-red-600"></div>
+                </div>
+              }
+            >
+              {users.map((listed) => (
+                <div key={listed.id} className="flex items-center justify-between px-6 py-3">
+                  <Link
+                    to={`/user/${listed.id}`}
+                    onClick={onClose}
+                    className="flex items-center space-x-3 min-w-0"
+                  >
+                    <img
+                      src={listed.avatar_url}
+                      alt={listed.username}
+                      className="w-10 h-10 rounded-full object-cover"
+                    />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {listed.first_name} {listed.last_name}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">@{listed.username}</p>
+                    </div>
+                  </Link>
+                  {listed.id !== currentUser?.id && (
+                    <button
+                      onClick={() => handleFollow(listed)}
+                      className={`ml-4 px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                        listed.is_following
+                          ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          : 'bg-red-600 text-white hover:bg-red-700'
+                      }`}
+                    >
+                      {listed.is_following ? 'Unfollow' : 'Follow'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </InfiniteScroll>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FollowListModal;
@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useState } from 'react';
 import Masonry from 'react-masonry-css';
 import PinCard from './PinCard';
+import { usePinUpdates } from '../context/RealtimeContext';
 
 interface Pin {
   id: string;
@@ -10,6 +11,8 @@ interface Pin {
   link?: string;
   likes_count: number;
   saves_count: number;
+  liked_by_me?: boolean;
+  saved_by_me?: boolean;
   users: {
     id: string;
     username: string;
@@ -22,9 +25,29 @@ interface Pin {
 interface MasonryGridProps {
   pins: Pin[];
   onPinUpdate?: (pinId: string, updates: Partial<Pin>) => void;
+  onPinRemove?: (pinId: string) => void;
+  onPinRestore?: (pinId: string) => void;
 }
 
-const MasonryGrid: React.FC<MasonryGridProps> = ({ pins, onPinUpdate }) => {
+const MasonryGrid: React.FC<MasonryGridProps> = ({ pins, onPinUpdate, onPinRemove, onPinRestore }) => {
+  // Deleted pins are hidden optimistically and shown again if the delete is undone
+  const [removedPinIds, setRemovedPinIds] = useState<string[]>([]);
+
+  const handlePinRemove = (pinId: string) => {
+    setRemovedPinIds(prev => [...prev, pinId]);
+    onPinRemove?.(pinId);
+  };
+
+  const handlePinRestore = (pinId: string) => {
+    setRemovedPinIds(prev => prev.filter(id => id !== pinId));
+    onPinRestore?.(pinId);
+  };
+
+  const visiblePins = pins.filter(pin => !removedPinIds.includes(pin.id));
+
+  // Counts pushed by the server for pins on screen
+  usePinUpdates(visiblePins.map(pin => pin.id), onPinUpdate);
+
   const breakpointColumnsObj = {
     default: 5,
     1280: 4,
@@ -33,7 +56,7 @@ const MasonryGrid: React.FC<MasonryGridProps> = ({ pins, onPinUpdate }) => {
     640: 1
   };
 
-  if (pins.length === 0) {
+  if (visiblePins.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-16 text-gray-500">
         <div className="w-16 h-16 bg-gray-200 rounded-full flex items-center justify-center mb-4">
@@ -52,11 +75,13 @@ const MasonryGrid: React.FC<MasonryGridProps> = ({ pins, onPinUpdate }) => {
         className="flex w-auto -ml-4"
         columnClassName="pl-4 bg-clip-padding"
       >
-        {pins.map((pin) => (
+        {visiblePins.map((pin) => (
           <PinCard 
             key={pin.id} 
             pin={pin} 
             onPinUpdate={onPinUpdate}
+            onPinRemove={handlePinRemove}
+            onPinRestore={handlePinRestore}
           />
         ))}
       </Masonry>
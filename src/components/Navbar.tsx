@@ -1,26 +1,20 @@
 import React, { useState } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
-import { Search, Plus, User, LogOut, Home, Menu, X } from 'lucide-react';
+import { Plus, User, LogOut, Home, Menu, X, Bell, MessageCircle, Shield } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../context/NotificationContext';
 import toast from 'react-hot-toast';
+import SearchBox from './SearchBox';
 
 const Navbar: React.FC = () => {
   const { user, logout } = useAuth();
+  const { unreadCount, unreadMessageCount } = useNotifications();
   const navigate = useNavigate();
   const location = useLocation();
-  const [searchQuery, setSearchQuery] = useState('');
   const [isMenuOpen, setIsMenuOpen] = useState(false);
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/?search=${encodeURIComponent(searchQuery.trim())}`);
-      setSearchQuery('');
-    }
-  };
-
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     toast.success('Logged out successfully');
     navigate('/');
     setIsMenuOpen(false);
@@ -72,23 +66,45 @@ const Navbar: React.FC = () => {
           </div>
 
           {/* Search Bar */}
-          <form onSubmit={handleSearch} className="hidden sm:flex flex-1 max-w-md mx-4">
-            <div className="relative w-full">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
-              <input
-                type="text"
-                placeholder="Search for ideas"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-            </div>
-          </form>
+          <SearchBox className="hidden sm:flex flex-1 max-w-md mx-4" />
 
           {/* User Menu - Desktop */}
           <div className="hidden md:flex items-center space-x-4">
             {user ? (
               <div className="flex items-center space-x-3">
+                {user.role === 'admin' && (
+                  <Link
+                    to="/admin"
+                    title="Moderation"
+                    className="p-2 text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+                  >
+                    <Shield size={20} />
+                  </Link>
+                )}
+                <Link
+                  to="/messages"
+                  title="Messages"
+                  className="relative p-2 text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+                >
+                  <MessageCircle size={20} />
+                  {unreadMessageCount > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 bg-red-600 text-white text-xs font-bold rounded-full flex items-center justify-center">
+                      {unreadMessageCount > 99 ? '99+' : unreadMessageCount}
+                    </span>
+                  )}
+                </Link>
+                <Link
+                  to="/notifications"
+                  title="Notifications"
+                  className="relative p-2 text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+                >
+                  <Bell size={20} />
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 bg-red-600 text-white text-xs font-bold rounded-full flex items-center justify-center">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
+                </Link>
                 <Link
                   to={`/user/${user.id}`}
                   className="flex items-center space-x-2 text-gray-700 hover:text-gray-900 transition-colors"
@@ -136,18 +152,7 @@ const Navbar: React.FC = () => {
 
         {/* Mobile Search */}
         <div className="sm:hidden pb-3">
-          <form onSubmit={handleSearch}>
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
-              <input
-                type="text"
-                placeholder="Search for ideas"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-            </div>
-          </form>
+          <SearchBox />
         </div>
       </div>
 
@@ -181,6 +186,54 @@ const Navbar: React.FC = () => {
                   <Plus size={20} />
                   <span>Create Pin</span>
                 </Link>
+                <Link
+                  to="/notifications"
+                  onClick={() => setIsMenuOpen(false)}
+                  className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
+                    isActive('/notifications')
+                      ? 'bg-gray-100 text-black'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <Bell size={20} />
+                  <span>Notifications</span>
+                  {unreadCount > 0 && (
+                    <span className="ml-auto bg-red-600 text-white text-xs font-bold rounded-full px-2 py-0.5">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
+                </Link>
+                <Link
+                  to="/messages"
+                  onClick={() => setIsMenuOpen(false)}
+                  className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
+                    location.pathname.startsWith('/messages')
+                      ? 'bg-gray-100 text-black'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <MessageCircle size={20} />
+                  <span>Messages</span>
+                  {unreadMessageCount > 0 && (
+                    <span className="ml-auto bg-red-600 text-white text-xs font-bold rounded-full px-2 py-0.5">
+                      {unreadMessageCount > 99 ? '99+' : unreadMessageCount}
+                    </span>
+                  )}
+                </Link>
+                {user.role === 'admin' && (
+                  <Link
+                    to="/admin"
+                    onClick={() => setIsMenuOpen(false)}
+                    className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
+                      isActive('/admin')
+                        ? 'bg-gray-100 text-black'
+                        : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <Shield size={20} />
+                    <span>Moderation</span>
+                  </Link>
+                )}
                 <Link
                   to={`/user/${user.id}`}
                   onClick={() => setIsMenuOpen(false)}
@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+
+interface Provider {
+  id: string;
+  name: string;
+}
+
+interface OAuthButtonsProps {
+  // Where to land after signing in
+  redirect?: string;
+}
+
+// "Continue with ..." buttons for every sign-in provider the server has configured
+const OAuthButtons: React.FC<OAuthButtonsProps> = ({ redirect = '/' }) => {
+  const [providers, setProviders] = useState<Provider[]>([]);
+
+  useEffect(() => {
+    fetchProviders();
+  }, []);
+
+  const fetchProviders = async () => {
+    try {
+      const response = await axios.get('/auth/oauth/providers');
+      setProviders(response.data.providers);
+    } catch (error) {
+      console.error('Error fetching sign-in providers:', error);
+    }
+  };
+
+  // A full page navigation: the server redirects on to the provider
+  const handleSignIn = (provider: Provider) => {
+    window.location.href =
+      `${axios.defaults.baseURL}/auth/oauth/${provider.id}?redirect=${encodeURIComponent(redirect)}`;
+  };
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6">
+      <div className="space-y-3">
+        {providers.map((provider) => (
+          <button
+            key={provider.id}
+            type="button"
+            onClick={() => handleSignIn(provider)}
+            className="w-full py-3 px-4 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Continue with {provider.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center my-6">
+        <div className="flex-1 border-t border-gray-200"></div>
+        <span className="px-3 text-sm text-gray-500">or</span>
+        <div className="flex-1 border-t border-gray-200"></div>
+      </div>
+    </div>
+  );
+};
+
+export default OAuthButtons;
@@ -1,9 +1,13 @@
-import React, { useState } from 'react';
-import { Link } from 'react-router-dom';
-import { Heart, Bookmark, ExternalLink, MoreHorizontal } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Heart, Bookmark, ExternalLink, MoreHorizontal, Pencil, Trash2, Lock, Users, Flag } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import axios from 'axios';
 import toast from 'react-hot-toast';
+import BoardPicker from './BoardPicker';
+import ConfirmDialog from './ConfirmDialog';
+import UndoToast from './UndoToast';
+import ReportModal from './ReportModal';
 
 interface Pin {
   id: string;
@@ -13,6 +17,9 @@ interface Pin {
   link?: string;
   likes_count: number;
   saves_count: number;
+  liked_by_me?: boolean;
+  saved_by_me?: boolean;
+  visibility?: 'public' | 'followers' | 'private';
   users: {
     id: string;
     username: string;
@@ -25,16 +32,34 @@ interface Pin {
 interface PinCardProps {
   pin: Pin;
   onPinUpdate?: (pinId: string, updates: Partial<Pin>) => void;
+  onPinRemove?: (pinId: string) => void;
+  onPinRestore?: (pinId: string) => void;
 }
 
-const PinCard: React.FC<PinCardProps> = ({ pin, onPinUpdate }) => {
+const PinCard: React.FC<PinCardProps> = ({ pin, onPinUpdate, onPinRemove, onPinRestore }) => {
   const { user } = useAuth();
-  const [isLiked, setIsLiked] = useState(false);
-  const [isSaved, setIsSaved] = useState(false);
+  const navigate = useNavigate();
+  const [isLiked, setIsLiked] = useState(pin.liked_by_me ?? false);
+  const [isSaved, setIsSaved] = useState(pin.saved_by_me ?? false);
   const [likesCount, setLikesCount] = useState(pin.likes_count);
   const [savesCount, setSavesCount] = useState(pin.saves_count);
   const [imageLoaded, setImageLoaded] = useState(false);
   const [showOverlay, setShowOverlay] = useState(false);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
+  const isOwnPin = user?.id === pin.users.id;
+
+  // Counts can also change from realtime updates pushed into the pin
+  useEffect(() => {
+    setLikesCount(pin.likes_count);
+  }, [pin.likes_count]);
+
+  useEffect(() => {
+    setSavesCount(pin.saves_count);
+  }, [pin.saves_count]);
 
   const handleLike = async (e: React.MouseEvent) => {
     e.preventDefault();
@@ -54,7 +79,8 @@ const PinCard: React.FC<PinCardProps> = ({ pin, onPinUpdate }) => {
       
       if (onPinUpdate) {
         onPinUpdate(pin.id, { 
-          likes_count: newLikedState ? likesCount + 1 : likesCount - 1 
+          likes_count: newLikedState ? likesCount + 1 : likesCount - 1,
+          liked_by_me: newLikedState
         });
       }
     } catch (error) {
@@ -71,25 +97,97 @@ const PinCard: React.FC<PinCardProps> = ({ pin, onPinUpdate }) => {
       return;
     }
 
+    // Unsaved pins go through the board picker
+    if (!isSaved) {
+      setIsPickerOpen(true);
+      return;
+    }
+
     try {
-      const response = await axios.post(`/pins/${pin.id}/save`);
-      const newSavedState = response.data.saved;
+      await axios.post(`/pins/${pin.id}/save`);
       
-      setIsSaved(newSavedState);
-      setSavesCount(prev => newSavedState ? prev + 1 : prev - 1);
+      setIsSaved(false);
+      setSavesCount(prev => prev - 1);
       
-      toast.success(newSavedState ? 'Pin saved!' : 'Pin unsaved');
+      toast.success('Pin unsaved');
       
       if (onPinUpdate) {
-        onPinUpdate(pin.id, { 
-          saves_count: newSavedState ? savesCount + 1 : savesCount - 1 
-        });
+        onPinUpdate(pin.id, { saves_count: savesCount - 1, saved_by_me: false });
       }
     } catch (error) {
       toast.error('Failed to save pin');
     }
   };
 
+  const handleBoardSaved = (board: { name: string } | null) => {
+    setIsPickerOpen(false);
+    setIsSaved(true);
+    setSavesCount(prev => prev + 1);
+
+    toast.success(board ? `Saved to ${board.name}` : 'Pin saved!');
+
+    if (onPinUpdate) {
+      onPinUpdate(pin.id, { saves_count: savesCount + 1, saved_by_me: true });
+    }
+  };
+
+  const closePicker = useCallback(() => setIsPickerOpen(false), []);
+
+  const handleMenuToggle = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsMenuOpen(prev => !prev);
+  };
+
+  const handleEdit = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    navigate(`/pin/${pin.id}/edit`);
+  };
+
+  const handleDeleteClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsMenuOpen(false);
+    setIsConfirmOpen(true);
+  };
+
+  const handleReportClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsMenuOpen(false);
+    setIsReportOpen(true);
+  };
+
+  const handleUndoDelete = async () => {
+    try {
+      await axios.post(`/pins/${pin.id}/restore`);
+      onPinRestore?.(pin.id);
+      toast.success('Pin restored');
+    } catch (error) {
+      console.error('Error restoring pin:', error);
+      toast.error('Pin can no longer be restored');
+    }
+  };
+
+  // Remove the card right away and put it back if the request fails
+  const handleDelete = async () => {
+    setIsConfirmOpen(false);
+    onPinRemove?.(pin.id);
+
+    try {
+      await axios.delete(`/pins/${pin.id}`);
+      toast(
+        (t) => <UndoToast toastId={t.id} message="Pin deleted" onUndo={handleUndoDelete} />,
+        { duration: 8000 }
+      );
+    } catch (error) {
+      console.error('Error deleting pin:', error);
+      onPinRestore?.(pin.id);
+      toast.error('Failed to delete pin');
+    }
+  };
+
   const handleExternalLink = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -103,7 +201,10 @@ const PinCard: React.FC<PinCardProps> = ({ pin, onPinUpdate }) => {
     <div 
       className="relative group cursor-pointer break-inside-avoid mb-4"
       onMouseEnter={() => setShowOverlay(true)}
-      onMouseLeave={() => setShowOverlay(false)}
+      onMouseLeave={() => {
+        setShowOverlay(false);
+        setIsMenuOpen(false);
+      }}
     >
       <Link to={`/pin/${pin.id}`} className="block">
         <div className="relative overflow-hidden rounded-lg bg-gray-200 shadow-md hover:shadow-lg transition-shadow duration-200">
@@ -125,8 +226,16 @@ const PinCard: React.FC<PinCardProps> = ({ pin, onPinUpdate }) => {
             </div>
           )}
 
+          {/* Badge for pins that aren't public */}
+          {pin.visibility && pin.visibility !== 'public' && (
+            <div className="absolute top-3 left-3 flex items-center space-x-1 px-2 py-1 bg-black bg-opacity-60 text-white text-xs font-medium rounded-full">
+              {pin.visibility === 'private' ? <Lock size={12} /> : <Users size={12} />}
+              <span>{pin.visibility === 'private' ? 'Only you' : 'Followers'}</span>
+            </div>
+          )}
+
           {/* Overlay with actions */}
-          {showOverlay && (
+          {(showOverlay || isPickerOpen) && (
             <div className="absolute inset-0 bg-black bg-opacity-40 flex flex-col justify-between p-3 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
               {/* Top actions */}
               <div className="flex justify-between items-start">
@@ -174,9 +283,46 @@ const PinCard: React.FC<PinCardProps> = ({ pin, onPinUpdate }) => {
                   </button>
                 </div>
 
-                <button className="p-2 bg-white bg-opacity-90 rounded-full hover:bg-opacity-100 transition-all">
-                  <MoreHorizontal size={16} className="text-gray-700" />
-                </button>
+                {user && (
+                  <div className="relative">
+                    <button
+                      onClick={handleMenuToggle}
+                      className="p-2 bg-white bg-opacity-90 rounded-full hover:bg-opacity-100 transition-all"
+                    >
+                      <MoreHorizontal size={16} className="text-gray-700" />
+                    </button>
+                    {isMenuOpen && (
+                      <div className="absolute right-0 bottom-full mb-2 w-36 bg-white rounded-xl shadow-lg py-1">
+                        {isOwnPin ? (
+                          <>
+                            <button
+                              onClick={handleEdit}
+                              className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                            >
+                              <Pencil size={14} />
+                              <span>Edit pin</span>
+                            </button>
+                            <button
+                              onClick={handleDeleteClick}
+                              className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-red-600 hover:bg-gray-100 transition-colors"
+                            >
+                              <Trash2 size={14} />
+                              <span>Delete pin</span>
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            onClick={handleReportClick}
+                            className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                          >
+                            <Flag size={14} />
+                            <span>Report pin</span>
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -211,6 +357,24 @@ const PinCard: React.FC<PinCardProps> = ({ pin, onPinUpdate }) => {
           </Link>
         </div>
       </Link>
+
+      {/* Board picker lives outside the link so its clicks don't navigate */}
+      {isPickerOpen && (
+        <div className="absolute top-3 right-3 h-7">
+          <BoardPicker pinId={pin.id} onSaved={handleBoardSaved} onClose={closePicker} />
+        </div>
+      )}
+
+      {isConfirmOpen && (
+        <ConfirmDialog
+          title="Delete this pin?"
+          message="The pin will be removed from your profile and any boards it was saved to."
+          onConfirm={handleDelete}
+          onCancel={() => setIsConfirmOpen(false)}
+        />
+      )}
+
+      {isReportOpen && <ReportModal pinId={pin.id} onClose={() => setIsReportOpen(false)} />}
     </div>
   );
 };
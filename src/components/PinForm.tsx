@@ -0,0 +1,361 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Upload, Link as LinkIcon, X, Globe, Users, Lock } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import TagInput from './TagInput';
+
+type PinVisibility = 'public' | 'followers' | 'private';
+
+interface PinFormValues {
+  title: string;
+  description: string;
+  link: string;
+  category: string;
+  tags: string[];
+  visibility: PinVisibility;
+}
+
+const VISIBILITY_OPTIONS = [
+  { value: 'public', label: 'Public', icon: Globe, hint: 'Anyone can see this Pin' },
+  { value: 'followers', label: 'Followers', icon: Users, hint: 'Only people who follow you can see this Pin' },
+  { value: 'private', label: 'Only me', icon: Lock, hint: 'Only you can see this Pin, handy for work in progress' },
+] as const;
+
+interface PinFormProps {
+  heading: string;
+  submitLabel: string;
+  submittingLabel: string;
+  initialValues?: PinFormValues;
+  // Existing image when editing; a new file is then optional
+  initialImageUrl?: string;
+  onSubmit: (data: FormData) => Promise<void>;
+}
+
+interface Category {
+  slug: string;
+  name: string;
+}
+
+const PinForm: React.FC<PinFormProps> = ({
+  heading,
+  submitLabel,
+  submittingLabel,
+  initialValues,
+  initialImageUrl,
+  onSubmit,
+}) => {
+  const [formData, setFormData] = useState<PinFormValues>(initialValues || {
+    title: '',
+    description: '',
+    link: '',
+    category: 'general',
+    tags: [],
+    visibility: 'public',
+  });
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(initialImageUrl || null);
+  const [loading, setLoading] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      const response = await axios.get('/categories');
+      setCategories(response.data.categories);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      toast.error('Failed to load categories');
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      // Validate file type
+      if (!file.type.startsWith('image/')) {
+        toast.error('Please select an image file');
+        return;
+      }
+
+      // Validate file size (5MB limit)
+      if (file.size > 5 * 1024 * 1024) {
+        toast.error('File size must be less than 5MB');
+        return;
+      }
+
+      setSelectedFile(file);
+
+      // Create preview URL
+      const url = URL.createObjectURL(file);
+      setPreviewUrl(url);
+    }
+  };
+
+  const handleRemoveFile = () => {
+    if (selectedFile && previewUrl) {
+      URL.revokeObjectURL(previewUrl);
+    }
+    setSelectedFile(null);
+    setPreviewUrl(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // The preview is either the newly selected file or the existing image
+    if (!previewUrl) {
+      toast.error('Please select an image');
+      return;
+    }
+
+    if (!formData.title.trim()) {
+      toast.error('Please enter a title');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const submitData = new FormData();
+      if (selectedFile) {
+        submitData.append('image', selectedFile);
+      }
+      submitData.append('title', formData.title.trim());
+      submitData.append('description', formData.description.trim());
+      submitData.append('link', formData.link.trim());
+      submitData.append('category', formData.category);
+      submitData.append('tags', JSON.stringify(formData.tags));
+      submitData.append('visibility', formData.visibility);
+
+      await onSubmit(submitData);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h1 className="text-2xl font-bold text-gray-900">{heading}</h1>
+          </div>
+
+          <form onSubmit={handleSubmit}>
+            <div className="p-6">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Image Upload Section */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-3">
+                    {initialImageUrl ? 'Image' : 'Upload Image *'}
+                  </label>
+
+                  {!previewUrl ? (
+                    <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-gray-400 transition-colors">
+                      <input
+                        type="file"
+                        accept="image/*"
+                        onChange={handleFileSelect}
+                        className="hidden"
+                        id="image-upload"
+                      />
+                      <label
+                        htmlFor="image-upload"
+                        className="cursor-pointer flex flex-col items-center"
+                      >
+                        <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mb-4">
+                          <Upload className="w-6 h-6 text-gray-400" />
+                        </div>
+                        <p className="text-lg font-medium text-gray-900 mb-2">
+                          Choose a file or drag and drop
+                        </p>
+                        <p className="text-sm text-gray-500 mb-4">
+                          We recommend using high-quality JPG, PNG, or GIF less than 5MB
+                        </p>
+                        <div className="bg-red-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-red-700 transition-colors">
+                          Select Image
+                        </div>
+                      </label>
+                    </div>
+                  ) : (
+                    <div className="relative">
+                      <img
+                        src={previewUrl}
+                        alt="Preview"
+                        className="w-full h-64 object-cover rounded-lg"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleRemoveFile}
+                        title={initialImageUrl ? 'Replace image' : 'Remove image'}
+                        className="absolute top-2 right-2 p-1 bg-black bg-opacity-50 text-white rounded-full hover:bg-opacity-70 transition-opacity"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Form Fields */}
+                <div className="space-y-6">
+                  <div>
+                    <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
+                      Title *
+                    </label>
+                    <input
+                      type="text"
+                      id="title"
+                      name="title"
+                      required
+                      value={formData.title}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      placeholder="Add your title"
+                      maxLength={100}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formData.title.length}/100 characters
+                    </p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
+                      Description
+                    </label>
+                    <textarea
+                      id="description"
+                      name="description"
+                      rows={4}
+                      value={formData.description}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent resize-none"
+                      placeholder="Tell everyone what your Pin is about"
+                      maxLength={500}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formData.description.length}/500 characters
+                    </p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="link" className="block text-sm font-medium text-gray-700 mb-2">
+                      <LinkIcon size={16} className="inline mr-1" />
+                      Link
+                    </label>
+                    <input
+                      type="url"
+                      id="link"
+                      name="link"
+                      value={formData.link}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      placeholder="Add a destination link"
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
+                      Category
+                    </label>
+                    <select
+                      id="category"
+                      name="category"
+                      value={formData.category}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    >
+                      {categories.map((category) => (
+                        <option key={category.slug} value={category.slug}>
+                          {category.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-2">
+                      Tags
+                    </label>
+                    <TagInput
+                      tags={formData.tags}
+                      onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      #hashtags in the description are added automatically
+                    </p>
+                  </div>
+
+                  <div>
+                    <span className="block text-sm font-medium text-gray-700 mb-2">
+                      Who can see this Pin
+                    </span>
+                    <div className="grid grid-cols-3 gap-2">
+                      {VISIBILITY_OPTIONS.map(({ value, label, icon: Icon }) => (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, visibility: value }))}
+                          className={`flex flex-col items-center px-3 py-2 border rounded-lg text-sm font-medium transition-colors ${
+                            formData.visibility === value
+                              ? 'border-red-600 bg-red-50 text-red-700'
+                              : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          <Icon size={18} className="mb-1" />
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {VISIBILITY_OPTIONS.find(option => option.value === formData.visibility)?.hint}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => navigate(-1)}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading || !previewUrl || !formData.title.trim()}
+                className="px-6 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? (
+                  <div className="flex items-center">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    {submittingLabel}
+                  </div>
+                ) : (
+                  submitLabel
+                )}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PinForm;
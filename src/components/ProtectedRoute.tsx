@@ -4,9 +4,11 @@ import { useAuth } from '../context/AuthContext';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  // Also require this role, sending everyone else home
+  role?: 'admin';
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, role }) => {
   const { user, loading } = useAuth();
   const location = useLocation();
 
@@ -22,6 +24,10 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  if (role && user.role !== role) {
+    return <Navigate to="/" replace />;
+  }
+
   return <>{children}</>;
 };
 
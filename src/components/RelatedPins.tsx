@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import InfiniteScroll from 'react-infinite-scroll-component';
+import axios from 'axios';
+import MasonryGrid from './MasonryGrid';
+
+interface Pin {
+  id: string;
+  title: string;
+  description: string;
+  image_url: string;
+  link?: string;
+  likes_count: number;
+  saves_count: number;
+  liked_by_me?: boolean;
+  saved_by_me?: boolean;
+  users: {
+    id: string;
+    username: string;
+    first_name: string;
+    last_name: string;
+    avatar_url: string;
+  };
+}
+
+interface RelatedPinsProps {
+  pinId: string;
+}
+
+const RelatedPins: React.FC<RelatedPinsProps> = ({ pinId }) => {
+  const [pins, setPins] = useState<Pin[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(true);
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    setLoading(true);
+    setPins([]);
+    setPage(1);
+    fetchRelated(1, true);
+  }, [pinId]);
+
+  const fetchRelated = async (pageNum: number, reset: boolean = false) => {
+    try {
+      const response = await axios.get(`/pins/${pinId}/related?page=${pageNum}&limit=20`);
+      const newPins = response.data.pins;
+
+      if (reset) {
+        setPins(newPins);
+      } else {
+        setPins(prev => [...prev, ...newPins]);
+      }
+
+      setHasMore(response.data.hasMore);
+      setPage(pageNum);
+    } catch (error) {
+      console.error('Error fetching related pins:', error);
+      setHasMore(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = () => {
+    if (!loading && hasMore) {
+      fetchRelated(page + 1);
+    }
+  };
+
+  const handlePinUpdate = (updatedPinId: string, updates: Partial<Pin>) => {
+    setPins(prev => prev.map(pin =>
+      pin.id === updatedPinId ? { ...pin, ...updates } : pin
+    ));
+  };
+
+  // Nothing to show for pins without any related content
+  if (!loading && pins.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="pb-8">
+      <h2 className="text-2xl font-bold text-gray-900 text-center">More like this</h2>
+
+      <InfiniteScroll
+        dataLength={pins.length}
+        next={loadMore}
+        hasMore={hasMore}
+        loader={
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+          </div>
+        }
+      >
+        {pins.length > 0 && <MasonryGrid pins={pins} onPinUpdate={handlePinUpdate} />}
+      </InfiniteScroll>
+    </div>
+  );
+};
+
+export default RelatedPins;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+
+const REPORT_REASONS = [
+  { value: 'spam', label: 'Spam', description: 'Misleading or repetitive content' },
+  { value: 'harassment', label: 'Harassment or bullying', description: 'Targeting or threatening someone' },
+  { value: 'nudity', label: 'Nudity or sexual content', description: 'Explicit or adult material' },
+  { value: 'violence', label: 'Violence', description: 'Graphic violence or self-harm' },
+  { value: 'hate', label: 'Hateful activity', description: 'Attacks on people for who they are' },
+  { value: 'other', label: 'Something else', description: 'Tell us more below' },
+];
+
+// Exactly one of pinId and userId is set
+interface ReportModalProps {
+  pinId?: string;
+  userId?: string;
+  onClose: () => void;
+}
+
+const ReportModal: React.FC<ReportModalProps> = ({ pinId, userId, onClose }) => {
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      const response = await axios.post('/reports', {
+        pinId,
+        userId,
+        reason,
+        details: details.trim(),
+      });
+      toast.success(response.data.message);
+      onClose();
+    } catch (error) {
+      console.error('Error sending report:', error);
+      toast.error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to send report'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black bg-opacity-50 flex items-center justify-center px-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-2xl shadow-xl max-w-md w-full flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">
+            {pinId ? 'Report pin' : 'Report user'}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          <fieldset className="space-y-2">
+            <legend className="text-sm text-gray-600 mb-2">
+              Why are you reporting this? Moderators review every report.
+            </legend>
+            {REPORT_REASONS.map((option) => (
+              <label
+                key={option.value}
+                className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                  reason === option.value ? 'border-red-500 bg-red-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="reason"
+                  value={option.value}
+                  checked={reason === option.value}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="mt-1 text-red-600 focus:ring-red-500"
+                />
+                <span>
+                  <span className="block font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-sm text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div>
+            <label htmlFor="report-details" className="block text-sm font-medium text-gray-700 mb-2">
+              Details (optional)
+            </label>
+            <textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent resize-none"
+              placeholder="Anything that helps moderators understand the problem"
+            />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 rounded-b-2xl flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting || !reason}
+            className="px-6 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Sending...' : 'Report'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ReportModal;
@@ -0,0 +1,265 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, Clock, Hash } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+
+interface RecentSearch {
+  id: string;
+  query: string;
+}
+
+interface SuggestionResponse {
+  pins: { id: string; title: string; image_url: string }[];
+  categories: string[];
+  users: { id: string; name: string; username: string; avatar_url: string }[];
+}
+
+interface Suggestion {
+  key: string;
+  kind: 'search' | 'recent' | 'pin' | 'category' | 'user';
+  label: string;
+  sublabel?: string;
+  imageUrl?: string;
+  to: string;
+  // Selecting a suggestion that runs a search adds it to the history
+  query?: string;
+}
+
+interface SearchBoxProps {
+  className?: string;
+}
+
+const searchPath = (query: string, category?: string) => {
+  const params = new URLSearchParams({ q: query });
+  if (category) {
+    params.append('category', category);
+  }
+  return `/search?${params.toString()}`;
+};
+
+const SearchBox: React.FC<SearchBoxProps> = ({ className }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [recent, setRecent] = useState<RecentSearch[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLFormElement>(null);
+
+  const trimmed = query.trim();
+
+  // Debounced suggestions as the user types
+  useEffect(() => {
+    setActiveIndex(-1);
+
+    if (!trimmed) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await axios.get<SuggestionResponse>(
+          `/search/suggest?q=${encodeURIComponent(trimmed)}`
+        );
+        const { pins, categories, users } = response.data;
+
+        setSuggestions([
+          ...pins.map((pin): Suggestion => ({
+            key: `pin-${pin.id}`,
+            kind: 'pin',
+            label: pin.title,
+            imageUrl: pin.image_url,
+            to: `/pin/${pin.id}`,
+          })),
+          ...categories.map((category): Suggestion => ({
+            key: `category-${category}`,
+            kind: 'category',
+            label: category,
+            sublabel: 'Category',
+            to: searchPath(category, category),
+            query: category,
+          })),
+          ...users.map((suggested): Suggestion => ({
+            key: `user-${suggested.id}`,
+            kind: 'user',
+            label: suggested.name,
+            sublabel: `@${suggested.username}`,
+            imageUrl: suggested.avatar_url,
+            to: `/user/${suggested.id}`,
+          })),
+        ]);
+      } catch (error) {
+        console.error('Error fetching suggestions:', error);
+      }
+    }, 200);
+
+    return () => clearTimeout(timeout);
+  }, [trimmed]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const fetchRecent = async () => {
+    if (!user) return;
+
+    try {
+      const response = await axios.get('/search/recent');
+      setRecent(response.data.searches);
+    } catch (error) {
+      console.error('Error fetching recent searches:', error);
+    }
+  };
+
+  const items: Suggestion[] = trimmed
+    ? [
+        {
+          key: 'search',
+          kind: 'search',
+          label: `Search for "${trimmed}"`,
+          to: searchPath(trimmed),
+          query: trimmed,
+        },
+        ...suggestions,
+      ]
+    : recent.map((search) => ({
+        key: `recent-${search.id}`,
+        kind: 'recent',
+        label: search.query,
+        to: searchPath(search.query),
+        query: search.query,
+      }));
+
+  const selectItem = (item: Suggestion) => {
+    if (item.query && user) {
+      axios.post('/search/recent', { query: item.query }).catch((error) => {
+        console.error('Error saving recent search:', error);
+      });
+    }
+
+    navigate(item.to);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const item = items[activeIndex] || items[0];
+    if (item && (trimmed || activeIndex >= 0)) {
+      selectItem(item);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(prev => (items.length === 0 ? -1 : (prev + 1) % items.length));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev <= 0 ? items.length - 1 : prev - 1));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    try {
+      await axios.delete('/search/recent');
+      setRecent([]);
+    } catch (error) {
+      console.error('Error clearing search history:', error);
+      toast.error('Failed to clear search history');
+    }
+  };
+
+  return (
+    <form ref={containerRef} onSubmit={handleSubmit} className={className}>
+      <div className="relative w-full">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+        <input
+          type="text"
+          placeholder="Search for ideas"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => {
+            setIsOpen(true);
+            fetchRecent();
+          }}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-expanded={isOpen && items.length > 0}
+          aria-autocomplete="list"
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        {isOpen && items.length > 0 && (
+          <div className="absolute left-0 right-0 mt-2 bg-white rounded-2xl shadow-xl border border-gray-100 py-2 z-50 max-h-96 overflow-y-auto">
+            {!trimmed && (
+              <div className="flex items-center justify-between px-4 py-1">
+                <span className="text-xs font-semibold text-gray-500 uppercase">Recent searches</span>
+                <button
+                  type="button"
+                  onClick={handleClearHistory}
+                  className="text-xs text-gray-500 hover:text-red-600 transition-colors"
+                >
+                  Clear history
+                </button>
+              </div>
+            )}
+            <ul role="listbox">
+              {items.map((item, index) => (
+                <li
+                  key={item.key}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => selectItem(item)}
+                  className={`flex items-center space-x-3 px-4 py-2 cursor-pointer ${
+                    index === activeIndex ? 'bg-gray-100' : ''
+                  }`}
+                >
+                  {item.imageUrl ? (
+                    <img
+                      src={item.imageUrl}
+                      alt=""
+                      className={`w-8 h-8 object-cover ${item.kind === 'user' ? 'rounded-full' : 'rounded-lg'}`}
+                    />
+                  ) : (
+                    <div className="w-8 h-8 flex items-center justify-center text-gray-400">
+                      {item.kind === 'recent' ? <Clock size={18} /> : item.kind === 'category' ? <Hash size={18} /> : <Search size={18} />}
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 truncate">{item.label}</p>
+                    {item.sublabel && (
+                      <p className="text-xs text-gray-500 truncate">{item.sublabel}</p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default SearchBox;
@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { X, Search } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+
+interface Recipient {
+  id: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  avatar_url: string;
+}
+
+interface SendPinModalProps {
+  pinId: string;
+  onClose: () => void;
+}
+
+const SendPinModal: React.FC<SendPinModalProps> = ({ pinId, onClose }) => {
+  const { user } = useAuth();
+  const [query, setQuery] = useState('');
+  const [note, setNote] = useState('');
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sendingTo, setSendingTo] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string[]>([]);
+
+  // Recent conversations first; a search replaces them with matching people
+  useEffect(() => {
+    const q = query.trim();
+    setLoading(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        if (q) {
+          const response = await axios.get(`/search/users?q=${encodeURIComponent(q)}&limit=10`);
+          setRecipients(response.data.users.filter((found: Recipient) => found.id !== user?.id));
+        } else {
+          const response = await axios.get('/conversations?limit=10');
+          setRecipients(
+            response.data.conversations
+              .map((conversation: { other_user: Recipient | null }) => conversation.other_user)
+              .filter(Boolean)
+          );
+        }
+      } catch (error) {
+        console.error('Error fetching recipients:', error);
+      } finally {
+        setLoading(false);
+      }
+    }, q ? 250 : 0);
+
+    return () => clearTimeout(timeout);
+  }, [query, user?.id]);
+
+  const handleSend = async (recipient: Recipient) => {
+    setSendingTo(recipient.id);
+
+    try {
+      const response = await axios.post('/conversations', { userId: recipient.id });
+      await axios.post(`/conversations/${response.data.conversation.id}/messages`, {
+        pinId,
+        body: note.trim(),
+      });
+
+      setSentTo(prev => [...prev, recipient.id]);
+      toast.success(`Sent to ${recipient.first_name || recipient.username}`);
+    } catch (error) {
+      console.error('Error sending pin:', error);
+      toast.error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to send pin'
+      );
+    } finally {
+      setSendingTo(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black bg-opacity-50 flex items-center justify-center px-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-xl max-w-md w-full flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">Send to</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 border-b border-gray-200">
+          <div className="relative">
+            <Search size={18} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name or username"
+              autoFocus
+              className="w-full pl-10 pr-4 py-2 bg-gray-100 rounded-full focus:ring-2 focus:ring-red-500 focus:bg-white transition-colors"
+            />
+          </div>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={2000}
+            placeholder="Add a message (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+        </div>
+
+        <div className="overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : recipients.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">
+              {query.trim() ? 'No people found' : 'Search for someone to send this pin to'}
+            </p>
+          ) : (
+            recipients.map((recipient) => {
+              const sent = sentTo.includes(recipient.id);
+
+              return (
+                <div key={recipient.id} className="flex items-center justify-between px-6 py-3">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <img
+                      src={recipient.avatar_url}
+                      alt={recipient.username}
+                      className="w-10 h-10 rounded-full object-cover"
+                    />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {recipient.first_name} {recipient.last_name}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">@{recipient.username}</p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleSend(recipient)}
+                    disabled={sent || sendingTo === recipient.id}
+                    className={`px-4 py-2 rounded-full text-sm font-medium transition-colors flex-shrink-0 disabled:cursor-not-allowed ${
+                      sent
+                        ? 'bg-gray-200 text-gray-700'
+                        : 'bg-red-600 text-white hover:bg-red-700 disabled:opacity-50'
+                    }`}
+                  >
+                    {sent ? 'Sent' : 'Send'}
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SendPinModal;
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import axios from 'axios';
+
+interface TagSuggestion {
+  name: string;
+  pins_count: number;
+}
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_TAGS = 10;
+
+// Same rules as the server: lowercase letters, digits and underscores
+const normalizeTag = (value: string) => {
+  const name = value.trim().replace(/^#/, '').toLowerCase();
+  return /^[a-z0-9_]{1,30}$/.test(name) ? name : null;
+};
+
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange }) => {
+  const [input, setInput] = useState('');
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+
+  const prefix = normalizeTag(input);
+
+  // Debounced suggestions for the tag being typed
+  useEffect(() => {
+    if (!prefix) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await axios.get(`/tags/suggest?q=${encodeURIComponent(prefix)}`);
+        setSuggestions(response.data.tags);
+      } catch (error) {
+        console.error('Error fetching tag suggestions:', error);
+      }
+    }, 200);
+
+    return () => clearTimeout(timeout);
+  }, [prefix]);
+
+  const addTag = (value: string) => {
+    const name = normalizeTag(value);
+    if (name && !tags.includes(name) && tags.length < MAX_TAGS) {
+      onChange([...tags, name]);
+    }
+    setInput('');
+    setSuggestions([]);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(tags.filter(tag => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === ' ') {
+      if (input.trim()) {
+        e.preventDefault();
+        addTag(input);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+      }
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  const visibleSuggestions = suggestions.filter(suggestion => !tags.includes(suggestion.name));
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-red-500 focus-within:border-transparent">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center space-x-1 bg-gray-100 text-gray-700 text-sm px-2 py-1 rounded-full"
+          >
+            <span>#{tag}</span>
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <X size={14} />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          id="tags"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input.trim() && addTag(input)}
+          disabled={tags.length >= MAX_TAGS}
+          className="flex-1 min-w-[8rem] outline-none text-sm py-1 disabled:bg-transparent"
+          placeholder={tags.length >= MAX_TAGS ? 'Tag limit reached' : 'Add tags'}
+        />
+      </div>
+
+      {visibleSuggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 mt-1 bg-white rounded-lg shadow-lg border border-gray-100 py-1 z-10">
+          {visibleSuggestions.map((suggestion) => (
+            <li key={suggestion.name}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(suggestion.name)}
+                className="w-full flex justify-between px-3 py-2 text-sm text-left hover:bg-gray-50"
+              >
+                <span>#{suggestion.name}</span>
+                <span className="text-gray-400">
+                  {suggestion.pins_count} {suggestion.pins_count === 1 ? 'pin' : 'pins'}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
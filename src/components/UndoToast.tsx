@@ -0,0 +1,29 @@
+import React from 'react';
+import toast from 'react-hot-toast';
+
+interface UndoToastProps {
+  toastId: string;
+  message: string;
+  onUndo: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ toastId, message, onUndo }) => {
+  const handleUndo = () => {
+    toast.dismiss(toastId);
+    onUndo();
+  };
+
+  return (
+    <div className="flex items-center space-x-4">
+      <span>{message}</span>
+      <button
+        onClick={handleUndo}
+        className="font-semibold text-red-400 hover:text-red-300 transition-colors"
+      >
+        Undo
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Mail } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+
+// Nudges signed-in users who haven't confirmed their email address yet
+const VerifyEmailBanner: React.FC = () => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  if (!user || user.email_verified_at || location.pathname === '/verify-email') {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setSending(true);
+
+    try {
+      await axios.post('/auth/verify-email/resend');
+      setSent(true);
+      toast.success(`Verification email sent to ${user.email}`);
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      toast.error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to send verification email'
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-center space-x-3 text-sm text-yellow-800">
+        <Mail size={16} className="flex-shrink-0" />
+        <span>Please confirm your email address using the link we sent to {user.email}.</span>
+        <button
+          onClick={handleResend}
+          disabled={sending || sent}
+          className="font-medium underline hover:text-yellow-900 disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed"
+        >
+          {sent ? 'Sent' : 'Resend'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailBanner;
@@ -1,6 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import axios from 'axios';
-import Cookies from 'js-cookie';
 
 interface User {
   id: string;
@@ -10,13 +9,22 @@ interface User {
   last_name: string;
   avatar_url: string;
   bio?: string;
+  email_verified_at?: string | null;
+  role?: 'user' | 'admin';
 }
 
+// Either signed in, or the password was accepted and a second factor is still needed
+type LoginResult =
+  | { twoFactorRequired: false }
+  | { twoFactorRequired: true; challengeToken: string };
+
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   signup: (userData: SignupData) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  refreshUser: () => Promise<void>;
   loading: boolean;
 }
 
@@ -40,6 +48,57 @@ export const useAuth = () => {
 
 // Configure axios defaults
 axios.defaults.baseURL = 'http://localhost:5000/api';
+// The refresh token is an httpOnly cookie set by the API, so it must travel cross-origin
+axios.defaults.withCredentials = true;
+
+// The short-lived access token is only ever kept in memory
+let accessToken: string | null = null;
+let refreshPromise: Promise<User | null> | null = null;
+
+export const getAccessToken = () => accessToken;
+
+const requestRefresh = async (retried: boolean = false): Promise<User | null> => {
+  try {
+    const response = await axios.post('/auth/refresh');
+    accessToken = response.data.token;
+    return response.data.user;
+  } catch (error) {
+    // Another tab rotated the same cookie a moment ago; the browser now holds the new one
+    if (!retried && axios.isAxiosError(error) && error.response?.status === 409) {
+      return requestRefresh(true);
+    }
+    accessToken = null;
+    return null;
+  }
+};
+
+// Trade the refresh cookie for a new access token. Every refresh rotates the cookie, so
+// concurrent callers share a single request.
+export const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Restore the session before anything else is sent, so pages that fetch on mount get
+// per-viewer data
+const restoredSession = refreshAccessToken();
+
+axios.interceptors.request.use(async (config) => {
+  if (config.url !== '/auth/refresh') {
+    await restoredSession;
+    if (accessToken) {
+      config.headers.Authorization = `Bearer ${accessToken}`;
+    }
+  }
+  return config;
+});
+
+// Requests already retried after a refresh, so a second 401 is final
+const retriedRequests = new WeakSet<object>();
 
 interface AuthProviderProps {
   children: ReactNode;
@@ -49,21 +108,32 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
-  // Set up axios interceptor to include token in requests
+  // Refresh an expired access token and replay the request instead of logging out
   useEffect(() => {
-    const token = Cookies.get('token');
-    if (token) {
-      axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
-    }
-
-    // Response interceptor to handle token expiration
     const responseInterceptor = axios.interceptors.response.use(
       (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
-          logout();
+      async (error) => {
+        const config = error.config;
+
+        if (
+          error.response?.status !== 401 ||
+          !config?.headers?.Authorization ||
+          config.url === '/auth/refresh' ||
+          retriedRequests.has(config)
+        ) {
+          return Promise.reject(error);
+        }
+
+        retriedRequests.add(config);
+        const refreshedUser = await refreshAccessToken();
+
+        if (!refreshedUser) {
+          // The session is gone; replay without a token so public pages still load
+          setUser(null);
+          delete config.headers.Authorization;
         }
-        return Promise.reject(error);
+
+        return axios(config);
       }
     );
 
@@ -75,61 +145,84 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Check if user is logged in on app start
   useEffect(() => {
     const checkAuth = async () => {
-      try {
-        const token = Cookies.get('token');
-        if (token) {
-          const response = await axios.get('/auth/me');
-          setUser(response.data.user);
-        }
-      } catch (error) {
-        console.error('Auth check failed:', error);
-        Cookies.remove('token');
-        delete axios.defaults.headers.common['Authorization'];
-      } finally {
-        setLoading(false);
-      }
+      setUser(await restoredSession);
+      setLoading(false);
     };
 
     checkAuth();
   }, []);
 
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       const response = await axios.post('/auth/login', { email, password });
+
+      if (response.data.twoFactorRequired) {
+        return { twoFactorRequired: true, challengeToken: response.data.challengeToken };
+      }
+
       const { token, user } = response.data;
 
-      Cookies.set('token', token, { expires: 7 });
-      axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+      accessToken = token;
       setUser(user);
+      return { twoFactorRequired: false };
     } catch (error: any) {
       throw new Error(error.response?.data?.message || 'Login failed');
     }
   };
 
+  // Second login step with a code from the authenticator app or a recovery code
+  const completeTwoFactor = async (challengeToken: string, code: string) => {
+    try {
+      const response = await axios.post('/auth/login/2fa', { challengeToken, code });
+      const { token, user } = response.data;
+
+      accessToken = token;
+      setUser(user);
+    } catch (error) {
+      throw new Error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Verification failed'
+      );
+    }
+  };
+
   const signup = async (userData: SignupData) => {
     try {
       const response = await axios.post('/auth/signup', userData);
       const { token, user } = response.data;
 
-      Cookies.set('token', token, { expires: 7 });
-      axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+      accessToken = token;
       setUser(user);
     } catch (error: any) {
       throw new Error(error.response?.data?.message || 'Signup failed');
     }
   };
 
-  const logout = () => {
-    Cookies.remove('token');
-    delete axios.defaults.headers.common['Authorization'];
+  // Revoke this session on the server too, so the refresh cookie can't be reused
+  const logout = async () => {
+    try {
+      await axios.post('/auth/logout');
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+    accessToken = null;
     setUser(null);
   };
 
+  // Reload the current user, e.g. after the profile was edited
+  const refreshUser = async () => {
+    const response = await axios.get('/auth/me');
+    setUser(response.data.user);
+  };
+
   const value = {
     user,
     login,
+    completeTwoFactor,
     signup,
     logout,
+    refreshUser,
     loading,
   };
 
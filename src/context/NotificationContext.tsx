@@ -0,0 +1,93 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import axios from 'axios';
+import { useAuth } from './AuthContext';
+import { useRealtime } from './RealtimeContext';
+
+interface NotificationContextType {
+  unreadCount: number;
+  refreshUnreadCount: () => Promise<void>;
+  markAsRead: (ids?: string[]) => Promise<void>;
+  // Conversations with unread direct messages
+  unreadMessageCount: number;
+  refreshUnreadMessageCount: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
+
+// Fallback refresh of the unread badge, in case a pushed event was missed
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+interface NotificationProviderProps {
+  children: ReactNode;
+}
+
+export const NotificationProvider: React.FC<NotificationProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const { subscribe } = useRealtime();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [unreadMessageCount, setUnreadMessageCount] = useState(0);
+
+  const refreshUnreadCount = useCallback(async () => {
+    try {
+      const response = await axios.get('/notifications/unread-count');
+      setUnreadCount(response.data.count);
+    } catch (error) {
+      console.error('Error fetching unread notifications:', error);
+    }
+  }, []);
+
+  const refreshUnreadMessageCount = useCallback(async () => {
+    try {
+      const response = await axios.get('/conversations/unread-count');
+      setUnreadMessageCount(response.data.count);
+    } catch (error) {
+      console.error('Error fetching unread messages:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setUnreadCount(0);
+      setUnreadMessageCount(0);
+      return;
+    }
+
+    const refreshAll = () => {
+      refreshUnreadCount();
+      refreshUnreadMessageCount();
+    };
+
+    refreshAll();
+    const unsubscribeNotifications = subscribe('notification', refreshUnreadCount);
+    const unsubscribeMessages = subscribe('message', refreshUnreadMessageCount);
+    const interval = setInterval(refreshAll, POLL_INTERVAL_MS);
+    return () => {
+      unsubscribeNotifications();
+      unsubscribeMessages();
+      clearInterval(interval);
+    };
+  }, [user, refreshUnreadCount, refreshUnreadMessageCount, subscribe]);
+
+  const markAsRead = async (ids?: string[]) => {
+    await axios.post('/notifications/read', { ids });
+    await refreshUnreadCount();
+  };
+
+  const value = {
+    unreadCount,
+    refreshUnreadCount,
+    markAsRead,
+    unreadMessageCount,
+    refreshUnreadMessageCount,
+  };
+
+  return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+};
@@ -0,0 +1,169 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import axios from 'axios';
+import { useAuth, getAccessToken, refreshAccessToken } from './AuthContext';
+
+interface PinCounts {
+  likes_count: number;
+  saves_count: number;
+}
+
+type PinUpdateHandler = (pinId: string, updates: PinCounts) => void;
+
+// Events sent only to the signed-in user's own streams
+type UserEvent = 'notification' | 'message';
+type UserEventHandler = (data: unknown) => void;
+
+const USER_EVENTS: UserEvent[] = ['notification', 'message'];
+
+interface RealtimeContextType {
+  // Receive pushed counts for these pins until the returned function is called
+  watchPins: (pinIds: string[], onUpdate: PinUpdateHandler) => () => void;
+  // Called with the payload of each user event until the returned function is called
+  subscribe: <T>(event: UserEvent, handler: (data: T) => void) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+};
+
+// Keep the given pins' counts live by patching them through onPinUpdate
+export const usePinUpdates = (
+  pinIds: string[],
+  onPinUpdate?: (pinId: string, updates: PinCounts) => void
+) => {
+  const { watchPins } = useRealtime();
+  const onPinUpdateRef = useRef(onPinUpdate);
+  onPinUpdateRef.current = onPinUpdate;
+
+  const pinKey = pinIds.join(',');
+
+  useEffect(() => {
+    if (!pinKey) return;
+
+    return watchPins(pinKey.split(','), (pinId, updates) => {
+      onPinUpdateRef.current?.(pinId, updates);
+    });
+  }, [pinKey, watchPins]);
+};
+
+interface Watcher {
+  pinIds: string[];
+  onUpdate: PinUpdateHandler;
+}
+
+// Subscription changes are batched, e.g. while infinite scroll appends pages
+const SYNC_DELAY_MS = 300;
+
+interface RealtimeProviderProps {
+  children: ReactNode;
+}
+
+export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const connectionIdRef = useRef<string | null>(null);
+  const watchersRef = useRef(new Map<number, Watcher>());
+  const userEventHandlersRef = useRef(new Map<UserEvent, Set<UserEventHandler>>());
+  const nextWatcherIdRef = useRef(0);
+  const syncTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  // Bumped to reopen the stream with a freshly refreshed token
+  const [streamKey, setStreamKey] = useState(0);
+
+  // Tell the server the union of every watched pin
+  const syncSubscriptions = useCallback(() => {
+    clearTimeout(syncTimeoutRef.current);
+    syncTimeoutRef.current = setTimeout(async () => {
+      const connectionId = connectionIdRef.current;
+      if (!connectionId) return;
+
+      const pinIds = new Set<string>();
+      watchersRef.current.forEach(watcher => watcher.pinIds.forEach(id => pinIds.add(id)));
+
+      try {
+        await axios.put(`/events/${connectionId}/pins`, { pinIds: [...pinIds] });
+      } catch (error) {
+        console.error('Error updating realtime subscription:', error);
+      }
+    }, SYNC_DELAY_MS);
+  }, []);
+
+  // One stream per tab, reopened when the user logs in or out
+  useEffect(() => {
+    const params = new URLSearchParams();
+    const token = getAccessToken();
+    if (userId && token) {
+      params.append('token', token);
+    }
+
+    const source = new EventSource(`${axios.defaults.baseURL}/events?${params.toString()}`);
+
+    // Sent on every (re)connect, so subscriptions are restored after a dropped stream
+    source.addEventListener('ready', (event) => {
+      connectionIdRef.current = JSON.parse((event as MessageEvent).data).connectionId;
+      syncSubscriptions();
+    });
+
+    source.addEventListener('pin', (event) => {
+      const { pinId, likes_count, saves_count } = JSON.parse((event as MessageEvent).data);
+      watchersRef.current.forEach(watcher => {
+        if (watcher.pinIds.includes(pinId)) {
+          watcher.onUpdate(pinId, { likes_count, saves_count });
+        }
+      });
+    });
+
+    USER_EVENTS.forEach(userEvent => {
+      source.addEventListener(userEvent, (event) => {
+        const data = JSON.parse((event as MessageEvent).data);
+        userEventHandlersRef.current.get(userEvent)?.forEach(handler => handler(data));
+      });
+    });
+
+    // The browser gives up on a stream refused for an expired token instead of retrying
+    source.addEventListener('error', async () => {
+      if (source.readyState === EventSource.CLOSED && params.has('token') && await refreshAccessToken()) {
+        setStreamKey(key => key + 1);
+      }
+    });
+
+    return () => {
+      source.close();
+      connectionIdRef.current = null;
+    };
+  }, [userId, streamKey, syncSubscriptions]);
+
+  const watchPins = useCallback((pinIds: string[], onUpdate: PinUpdateHandler) => {
+    const id = nextWatcherIdRef.current++;
+    watchersRef.current.set(id, { pinIds, onUpdate });
+    syncSubscriptions();
+
+    return () => {
+      watchersRef.current.delete(id);
+      syncSubscriptions();
+    };
+  }, [syncSubscriptions]);
+
+  const subscribe = useCallback(<T,>(event: UserEvent, handler: (data: T) => void) => {
+    const handlers = userEventHandlersRef.current.get(event) || new Set<UserEventHandler>();
+    const untyped = handler as UserEventHandler;
+    handlers.add(untyped);
+    userEventHandlersRef.current.set(event, handlers);
+
+    return () => {
+      handlers.delete(untyped);
+    };
+  }, []);
+
+  const value = {
+    watchPins,
+    subscribe,
+  };
+
+  return <RealtimeContext.Provider value={value}>{children}</RealtimeContext.Provider>;
+};
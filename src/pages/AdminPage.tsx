@@ -0,0 +1,457 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { EyeOff, Eye, UserX, UserCheck, Check, X, Flag, ScrollText } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+
+interface UserSummary {
+  id: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  avatar_url: string;
+  suspended_at?: string | null;
+}
+
+type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+interface Report {
+  id: string;
+  reason: 'spam' | 'harassment' | 'nudity' | 'violence' | 'hate' | 'other';
+  details: string;
+  status: ReportStatus;
+  created_at: string;
+  resolved_at: string | null;
+  reporter: UserSummary | null;
+  pin: {
+    id: string;
+    title: string;
+    image_url: string;
+    hidden_at: string | null;
+    deleted_at: string | null;
+    users: UserSummary;
+  } | null;
+  reported_user: UserSummary | null;
+}
+
+interface ModerationAction {
+  id: string;
+  action: 'hide_pin' | 'unhide_pin' | 'suspend_user' | 'unsuspend_user' | 'resolve_report' | 'dismiss_report';
+  details: { reason?: string; visibility?: string };
+  created_at: string;
+  moderator: UserSummary | null;
+  pin: { id: string; title: string; image_url: string } | null;
+  target_user: UserSummary | null;
+  report_id: string | null;
+}
+
+const reasonLabels: Record<Report['reason'], string> = {
+  spam: 'Spam',
+  harassment: 'Harassment',
+  nudity: 'Nudity',
+  violence: 'Violence',
+  hate: 'Hateful activity',
+  other: 'Other',
+};
+
+const actionLabels: Record<ModerationAction['action'], string> = {
+  hide_pin: 'hid the pin',
+  unhide_pin: 'restored the pin',
+  suspend_user: 'suspended',
+  unsuspend_user: 'lifted the suspension of',
+  resolve_report: 'resolved a report',
+  dismiss_report: 'dismissed a report',
+};
+
+const displayName = (user: UserSummary | null) =>
+  user ? `${user.first_name} ${user.last_name}`.trim() || user.username : 'Deleted user';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message
+    ? error.response.data.message
+    : fallback;
+
+const AdminPage: React.FC = () => {
+  const [tab, setTab] = useState<'reports' | 'audit'>('reports');
+  const [status, setStatus] = useState<ReportStatus>('open');
+  const [reports, setReports] = useState<Report[]>([]);
+  const [reportsTotal, setReportsTotal] = useState(0);
+  const [reportsPage, setReportsPage] = useState(1);
+  const [reportsHasMore, setReportsHasMore] = useState(false);
+  const [actions, setActions] = useState<ModerationAction[]>([]);
+  const [actionsPage, setActionsPage] = useState(1);
+  const [actionsHasMore, setActionsHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Suspending asks for a reason first, which the user sees when they try to log in
+  const [suspendTarget, setSuspendTarget] = useState<{ user: UserSummary; reportId?: string } | null>(null);
+  const [suspendReason, setSuspendReason] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    if (tab === 'reports') {
+      fetchReports(1);
+    } else {
+      fetchActions(1);
+    }
+  }, [tab, status]);
+
+  const fetchReports = async (page: number) => {
+    try {
+      const response = await axios.get(`/admin/reports?status=${status}&page=${page}`);
+      setReports(prev => page === 1 ? response.data.reports : [...prev, ...response.data.reports]);
+      setReportsTotal(response.data.total);
+      setReportsPage(page);
+      setReportsHasMore(response.data.hasMore);
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+      toast.error('Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchActions = async (page: number) => {
+    try {
+      const response = await axios.get(`/admin/audit-log?page=${page}`);
+      setActions(prev => page === 1 ? response.data.actions : [...prev, ...response.data.actions]);
+      setActionsPage(page);
+      setActionsHasMore(response.data.hasMore);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast.error('Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a moderation action for a report, then reload the queue
+  const runAction = async (report: Report, url: string, body: object = {}) => {
+    setBusyId(report.id);
+
+    try {
+      const response = await axios.post(url, body);
+      toast.success(response.data.message);
+      await fetchReports(1);
+    } catch (error) {
+      console.error('Error running moderation action:', error);
+      toast.error(errorMessage(error, 'Failed to update report'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSuspend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!suspendTarget) return;
+
+    try {
+      const response = await axios.post(`/admin/users/${suspendTarget.user.id}/suspend`, {
+        reason: suspendReason.trim(),
+        reportId: suspendTarget.reportId,
+      });
+      toast.success(response.data.message);
+      setSuspendTarget(null);
+      setSuspendReason('');
+      await fetchReports(1);
+    } catch (error) {
+      console.error('Error suspending user:', error);
+      toast.error(errorMessage(error, 'Failed to suspend user'));
+    }
+  };
+
+  const actionButton = 'flex items-center space-x-1 px-3 py-1.5 rounded-full text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  const renderReport = (report: Report) => {
+    // The person whose account is on the line: the reported user, or the pin's owner
+    const targetUser = report.reported_user || report.pin?.users || null;
+    const isOpen = report.status === 'open';
+    const busy = busyId === report.id;
+
+    return (
+      <li key={report.id} className="px-6 py-4 space-y-3">
+        <div className="flex items-start space-x-4">
+          {report.pin ? (
+            <Link to={`/pin/${report.pin.id}`} className="flex-shrink-0">
+              <img
+                src={report.pin.image_url}
+                alt={report.pin.title}
+                className="w-16 h-16 rounded-lg object-cover"
+              />
+            </Link>
+          ) : targetUser && (
+            <Link to={`/user/${targetUser.id}`} className="flex-shrink-0">
+              <img
+                src={targetUser.avatar_url}
+                alt={targetUser.username}
+                className="w-16 h-16 rounded-full object-cover"
+              />
+            </Link>
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-900">
+              <span className="inline-block px-2 py-0.5 mr-2 bg-red-50 text-red-700 text-xs font-medium rounded-full">
+                {reasonLabels[report.reason]}
+              </span>
+              {report.pin ? (
+                <>
+                  Pin <Link to={`/pin/${report.pin.id}`} className="font-semibold hover:underline">"{report.pin.title}"</Link>
+                  {' by '}
+                </>
+              ) : 'User '}
+              {targetUser && (
+                <Link to={`/user/${targetUser.id}`} className="font-semibold hover:underline">
+                  {displayName(targetUser)}
+                </Link>
+              )}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Reported by {displayName(report.reporter)} on {new Date(report.created_at).toLocaleString()}
+              {report.pin?.hidden_at && ' · Pin hidden'}
+              {report.pin?.deleted_at && ' · Pin deleted'}
+              {targetUser?.suspended_at && ' · User suspended'}
+            </p>
+            {report.details && (
+              <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{report.details}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {report.pin && !report.pin.deleted_at && (
+            report.pin.hidden_at ? (
+              <button
+                onClick={() => runAction(report, `/admin/pins/${report.pin!.id}/unhide`)}
+                disabled={busy}
+                className={`${actionButton} bg-gray-100 text-gray-700 hover:bg-gray-200`}
+              >
+                <Eye size={14} />
+                <span>Unhide pin</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => runAction(report, `/admin/pins/${report.pin!.id}/hide`, isOpen ? { reportId: report.id } : {})}
+                disabled={busy}
+                className={`${actionButton} bg-gray-100 text-gray-700 hover:bg-gray-200`}
+              >
+                <EyeOff size={14} />
+                <span>Hide pin</span>
+              </button>
+            )
+          )}
+          {targetUser && (
+            targetUser.suspended_at ? (
+              <button
+                onClick={() => runAction(report, `/admin/users/${targetUser.id}/unsuspend`)}
+                disabled={busy}
+                className={`${actionButton} bg-gray-100 text-gray-700 hover:bg-gray-200`}
+              >
+                <UserCheck size={14} />
+                <span>Unsuspend user</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => setSuspendTarget({ user: targetUser, reportId: isOpen ? report.id : undefined })}
+                disabled={busy}
+                className={`${actionButton} bg-gray-100 text-gray-700 hover:bg-gray-200`}
+              >
+                <UserX size={14} />
+                <span>Suspend user</span>
+              </button>
+            )
+          )}
+          {isOpen && (
+            <>
+              <button
+                onClick={() => runAction(report, `/admin/reports/${report.id}/resolve`)}
+                disabled={busy}
+                className={`${actionButton} bg-red-600 text-white hover:bg-red-700`}
+              >
+                <Check size={14} />
+                <span>Resolve</span>
+              </button>
+              <button
+                onClick={() => runAction(report, `/admin/reports/${report.id}/dismiss`)}
+                disabled={busy}
+                className={`${actionButton} bg-white border border-gray-300 text-gray-700 hover:bg-gray-50`}
+              >
+                <X size={14} />
+                <span>Dismiss</span>
+              </button>
+            </>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  const renderAction = (entry: ModerationAction) => (
+    <li key={entry.id} className="flex items-center space-x-4 px-6 py-4">
+      <img
+        src={entry.moderator?.avatar_url}
+        alt={entry.moderator?.username}
+        className="w-10 h-10 rounded-full object-cover flex-shrink-0 bg-gray-200"
+      />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-gray-900">
+          <span className="font-semibold">{displayName(entry.moderator)}</span>{' '}
+          {actionLabels[entry.action]}
+          {entry.pin && (
+            <Link to={`/pin/${entry.pin.id}`} className="text-gray-600 hover:underline"> "{entry.pin.title}"</Link>
+          )}
+          {(entry.action === 'suspend_user' || entry.action === 'unsuspend_user') && entry.target_user && (
+            <Link to={`/user/${entry.target_user.id}`} className="font-semibold hover:underline"> {displayName(entry.target_user)}</Link>
+          )}
+        </p>
+        {entry.details.reason && (
+          <p className="text-sm text-gray-600 mt-1">Reason: {entry.details.reason}</p>
+        )}
+        <p className="text-xs text-gray-500 mt-1">{new Date(entry.created_at).toLocaleString()}</p>
+      </div>
+      {entry.pin && (
+        <img
+          src={entry.pin.image_url}
+          alt={entry.pin.title}
+          className="w-12 h-12 rounded-lg object-cover flex-shrink-0"
+        />
+      )}
+    </li>
+  );
+
+  const tabButton = (value: typeof tab, label: string, icon: React.ReactNode) => (
+    <button
+      onClick={() => setTab(value)}
+      className={`flex items-center space-x-2 py-3 border-b-2 font-medium transition-colors ${
+        tab === value
+          ? 'border-black text-black'
+          : 'border-transparent text-gray-500 hover:text-gray-700'
+      }`}
+    >
+      {icon}
+      <span>{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {/* Header */}
+          <div className="px-6 pt-4 border-b border-gray-200">
+            <h1 className="text-2xl font-bold text-gray-900">Moderation</h1>
+            <div className="flex space-x-6 mt-2">
+              {tabButton('reports', 'Reports', <Flag size={18} />)}
+              {tabButton('audit', 'Audit log', <ScrollText size={18} />)}
+            </div>
+          </div>
+
+          {tab === 'reports' && (
+            <div className="px-6 py-3 border-b border-gray-200 flex items-center justify-between">
+              <div className="flex space-x-2">
+                {(['open', 'resolved', 'dismissed'] as ReportStatus[]).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setStatus(value)}
+                    className={`px-3 py-1 rounded-full text-sm font-medium capitalize transition-colors ${
+                      status === value ? 'bg-black text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+              {!loading && <span className="text-sm text-gray-500">{reportsTotal} total</span>}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-16">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+            </div>
+          ) : tab === 'reports' ? (
+            reports.length === 0 ? (
+              <p className="text-center text-gray-500 py-16">
+                {status === 'open' ? 'The queue is empty' : `No ${status} reports`}
+              </p>
+            ) : (
+              <>
+                <ul className="divide-y divide-gray-100">{reports.map(renderReport)}</ul>
+                {reportsHasMore && (
+                  <div className="px-6 py-4 border-t border-gray-200 text-center">
+                    <button
+                      onClick={() => fetchReports(reportsPage + 1)}
+                      className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+                    >
+                      Load more
+                    </button>
+                  </div>
+                )}
+              </>
+            )
+          ) : actions.length === 0 ? (
+            <p className="text-center text-gray-500 py-16">No moderator actions yet</p>
+          ) : (
+            <>
+              <ul className="divide-y divide-gray-100">{actions.map(renderAction)}</ul>
+              {actionsHasMore && (
+                <div className="px-6 py-4 border-t border-gray-200 text-center">
+                  <button
+                    onClick={() => fetchActions(actionsPage + 1)}
+                    className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+                  >
+                    Load more
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {suspendTarget && (
+        <div
+          className="fixed inset-0 z-[60] bg-black bg-opacity-50 flex items-center justify-center px-4"
+          onClick={() => setSuspendTarget(null)}
+        >
+          <form
+            onSubmit={handleSuspend}
+            className="bg-white rounded-2xl shadow-xl max-w-sm w-full p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 className="text-xl font-bold text-gray-900 mb-2">
+              Suspend {displayName(suspendTarget.user)}?
+            </h2>
+            <p className="text-gray-600 mb-4">
+              They will be signed out everywhere and can't log in until the suspension is lifted.
+            </p>
+            <textarea
+              value={suspendReason}
+              onChange={(e) => setSuspendReason(e.target.value)}
+              rows={3}
+              maxLength={500}
+              placeholder="Reason, shown to the user when they try to log in"
+              className="w-full px-3 py-2 mb-6 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent resize-none"
+            />
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setSuspendTarget(null)}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors"
+              >
+                Suspend
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+
+interface RestrictedUser {
+  id: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  avatar_url: string;
+}
+
+const BlockedUsersPage: React.FC = () => {
+  const [blockedUsers, setBlockedUsers] = useState<RestrictedUser[]>([]);
+  const [mutedUsers, setMutedUsers] = useState<RestrictedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const fetchUsers = async () => {
+    try {
+      const [blockedResponse, mutedResponse] = await Promise.all([
+        axios.get('/users/blocked'),
+        axios.get('/users/muted'),
+      ]);
+      setBlockedUsers(blockedResponse.data.users);
+      setMutedUsers(mutedResponse.data.users);
+    } catch (error) {
+      console.error('Error fetching blocked users:', error);
+      toast.error('Failed to load blocked accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnblock = async (blockedUser: RestrictedUser) => {
+    try {
+      await axios.post(`/users/${blockedUser.id}/block`);
+      setBlockedUsers(prev => prev.filter(other => other.id !== blockedUser.id));
+      toast.success(`Unblocked ${blockedUser.first_name || blockedUser.username}`);
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      toast.error('Failed to unblock user');
+    }
+  };
+
+  const handleUnmute = async (mutedUser: RestrictedUser) => {
+    try {
+      await axios.post(`/users/${mutedUser.id}/mute`);
+      setMutedUsers(prev => prev.filter(other => other.id !== mutedUser.id));
+      toast.success(`Unmuted ${mutedUser.first_name || mutedUser.username}`);
+    } catch (error) {
+      console.error('Error unmuting user:', error);
+      toast.error('Failed to unmute user');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </div>
+    );
+  }
+
+  const renderList = (
+    users: RestrictedUser[],
+    emptyMessage: string,
+    actionLabel: string,
+    onAction: (user: RestrictedUser) => void
+  ) =>
+    users.length === 0 ? (
+      <p className="px-6 py-8 text-center text-sm text-gray-500">{emptyMessage}</p>
+    ) : (
+      <ul className="divide-y divide-gray-100">
+        {users.map((listedUser) => (
+          <li key={listedUser.id} className="flex items-center space-x-4 px-6 py-4">
+            <Link to={`/user/${listedUser.id}`} className="flex items-center space-x-3 flex-1 min-w-0">
+              <img
+                src={listedUser.avatar_url}
+                alt={listedUser.username}
+                className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+              />
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">
+                  {listedUser.first_name} {listedUser.last_name}
+                </p>
+                <p className="text-sm text-gray-500 truncate">@{listedUser.username}</p>
+              </div>
+            </Link>
+            <button
+              onClick={() => onAction(listedUser)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-full hover:bg-gray-200 transition-colors flex-shrink-0"
+            >
+              {actionLabel}
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h1 className="text-2xl font-bold text-gray-900">Blocked accounts</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Blocked people can't follow you, see your pins or message you
+            </p>
+          </div>
+
+          {renderList(blockedUsers, 'You haven\'t blocked anyone', 'Unblock', handleUnblock)}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-xl font-bold text-gray-900">Muted accounts</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Pins from muted people don't show up in your feeds or search results
+            </p>
+          </div>
+
+          {renderList(mutedUsers, 'You haven\'t muted anyone', 'Unmute', handleUnmute)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlockedUsersPage;
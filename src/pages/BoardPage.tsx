@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { ArrowLeft, Pencil, Trash2, Lock } from 'lucide-react';
+import InfiniteScroll from 'react-infinite-scroll-component';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+import MasonryGrid from '../components/MasonryGrid';
+
+interface Board {
+  id: string;
+  name: string;
+  description: string;
+  is_secret: boolean;
+  pins_count: number;
+  users: {
+    id: string;
+    username: string;
+    first_name: string;
+    last_name: string;
+    avatar_url: string;
+  };
+}
+
+interface Pin {
+  id: string;
+  title: string;
+  description: string;
+  image_url: string;
+  link?: string;
+  likes_count: number;
+  saves_count: number;
+  liked_by_me?: boolean;
+  saved_by_me?: boolean;
+  users: {
+    id: string;
+    username: string;
+    first_name: string;
+    last_name: string;
+    avatar_url: string;
+  };
+}
+
+const BoardPage: React.FC = () => {
+  const { id, boardId } = useParams<{ id: string; boardId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [board, setBoard] = useState<Board | null>(null);
+  const [pins, setPins] = useState<Pin[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(true);
+  const [page, setPage] = useState(1);
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState({ name: '', description: '', isSecret: false });
+
+  const isOwnBoard = user?.id === board?.users.id;
+
+  useEffect(() => {
+    setLoading(true);
+    setPins([]);
+    fetchBoard();
+    fetchPins(1, true);
+  }, [boardId]);
+
+  const fetchBoard = async () => {
+    try {
+      const response = await axios.get(`/boards/${boardId}`);
+      setBoard(response.data);
+      setFormData({
+        name: response.data.name,
+        description: response.data.description || '',
+        isSecret: response.data.is_secret,
+      });
+    } catch (error) {
+      console.error('Error fetching board:', error);
+      toast.error('Board not found');
+      navigate(`/user/${id}`);
+    }
+  };
+
+  const fetchPins = async (pageNum: number, reset: boolean = false) => {
+    try {
+      const response = await axios.get(`/boards/${boardId}/pins?page=${pageNum}&limit=20`);
+      const newPins = response.data.pins;
+
+      if (reset) {
+        setPins(newPins);
+      } else {
+        setPins(prev => [...prev, ...newPins]);
+      }
+
+      setHasMore(response.data.hasMore);
+      setPage(pageNum);
+    } catch (error) {
+      console.error('Error fetching board pins:', error);
+      toast.error('Failed to load pins');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = () => {
+    if (!loading && hasMore) {
+      fetchPins(page + 1);
+    }
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      toast.error('Please enter a board name');
+      return;
+    }
+
+    try {
+      const response = await axios.put(`/boards/${boardId}`, {
+        name: formData.name.trim(),
+        description: formData.description.trim(),
+        isSecret: formData.isSecret,
+      });
+      setBoard(prev => prev && { ...prev, ...response.data.board });
+      setIsEditing(false);
+      toast.success('Board updated!');
+    } catch (error) {
+      console.error('Error updating board:', error);
+      toast.error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to update board'
+      );
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this board? Its pins will stay in your saved ideas.')) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/boards/${boardId}`);
+      toast.success('Board deleted');
+      navigate(`/user/${id}`);
+    } catch (error) {
+      console.error('Error deleting board:', error);
+      toast.error('Failed to delete board');
+    }
+  };
+
+  if (loading && !board) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </div>
+    );
+  }
+
+  if (!board) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Board not found</h2>
+          <Link to={`/user/${id}`} className="text-red-600 hover:underline">
+            Back to profile
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Board Header */}
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <Link
+          to={`/user/${board.users.id}`}
+          className="inline-flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors mb-6"
+        >
+          <ArrowLeft size={18} />
+          <img
+            src={board.users.avatar_url}
+            alt={board.users.username}
+            className="w-6 h-6 rounded-full object-cover"
+          />
+          <span className="text-sm font-medium">
+            {board.users.first_name} {board.users.last_name}
+          </span>
+        </Link>
+
+        {isEditing ? (
+          <form onSubmit={handleUpdate} className="max-w-md mx-auto space-y-3">
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              maxLength={50}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              placeholder="Board name"
+            />
+            <textarea
+              rows={3}
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              maxLength={500}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent resize-none"
+              placeholder="What's this board about?"
+            />
+            <label className="flex items-center justify-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.isSecret}
+                onChange={(e) => setFormData(prev => ({ ...prev, isSecret: e.target.checked }))}
+                className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+              />
+              <span>Keep this board secret (only you can see it)</span>
+            </label>
+            <div className="flex justify-center space-x-3">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-6 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">{board.name}</h1>
+            {board.is_secret && (
+              <p className="inline-flex items-center space-x-1 text-sm text-gray-600 mb-2">
+                <Lock size={14} />
+                <span>Secret board</span>
+              </p>
+            )}
+            {board.description && (
+              <p className="text-gray-700 max-w-2xl mx-auto mb-2">{board.description}</p>
+            )}
+            <p className="text-gray-600">
+              {board.pins_count} {board.pins_count === 1 ? 'Pin' : 'Pins'}
+            </p>
+
+            {isOwnBoard && (
+              <div className="flex justify-center space-x-3 mt-6">
+                <button
+                  onClick={() => setIsEditing(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-full font-medium hover:bg-gray-200 transition-colors"
+                >
+                  <Pencil size={16} />
+                  <span>Edit board</span>
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-red-600 rounded-full font-medium hover:bg-red-50 transition-colors"
+                >
+                  <Trash2 size={16} />
+                  <span>Delete</span>
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Pins Grid with Infinite Scroll */}
+      <InfiniteScroll
+        dataLength={pins.length}
+        next={loadMore}
+        hasMore={hasMore}
+        loader={
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+          </div>
+        }
+      >
+        <MasonryGrid pins={pins} />
+      </InfiniteScroll>
+    </div>
+  );
+};
+
+export default BoardPage;
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import InfiniteScroll from 'react-infinite-scroll-component';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import MasonryGrid from '../components/MasonryGrid';
+import CategoryBar from '../components/CategoryBar';
+import { useAuth } from '../context/AuthContext';
+
+interface Pin {
+  id: string;
+  title: string;
+  description: string;
+  image_url: string;
+  link?: string;
+  likes_count: number;
+  saves_count: number;
+  liked_by_me?: boolean;
+  saved_by_me?: boolean;
+  users: {
+    id: string;
+    username: string;
+    first_name: string;
+    last_name: string;
+    avatar_url: string;
+  };
+}
+
+interface Category {
+  slug: string;
+  name: string;
+  pins_count: number;
+  cover_image_url: string | null;
+}
+
+const CategoryPage: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const { user } = useAuth();
+  const [category, setCategory] = useState<Category | null>(null);
+  const [pins, setPins] = useState<Pin[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [cursor, setCursor] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setNotFound(false);
+    setPins([]);
+    setCursor(null);
+    fetchCategory();
+    fetchPins(true);
+  }, [slug, user?.id]);
+
+  const fetchCategory = async () => {
+    try {
+      const response = await axios.get(`/categories/${slug}`);
+      setCategory(response.data);
+    } catch (error) {
+      console.error('Error fetching category:', error);
+      setNotFound(true);
+    }
+  };
+
+  const fetchPins = async (reset: boolean = false) => {
+    try {
+      const params = new URLSearchParams({
+        limit: '20',
+        category: slug || '',
+      });
+      if (!reset && cursor) {
+        params.append('cursor', cursor);
+      }
+      const response = await axios.get(`/pins?${params.toString()}`);
+      const newPins = response.data.pins;
+
+      if (reset) {
+        setPins(newPins);
+      } else {
+        setPins(prev => [...prev, ...newPins]);
+      }
+
+      setHasMore(response.data.hasMore);
+      setCursor(response.data.nextCursor);
+    } catch (error) {
+      console.error('Error fetching pins:', error);
+      toast.error('Failed to load pins');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = () => {
+    if (!loading && hasMore) {
+      fetchPins();
+    }
+  };
+
+  const handlePinUpdate = (pinId: string, updates: Partial<Pin>) => {
+    setPins(prev => prev.map(pin =>
+      pin.id === pinId ? { ...pin, ...updates } : pin
+    ));
+  };
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Category not found</h2>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      <CategoryBar activeSlug={slug} />
+
+      {/* Header */}
+      {category && (
+        <div className="text-center py-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">{category.name}</h1>
+          <p className="text-gray-600">
+            {category.pins_count} {category.pins_count === 1 ? 'pin' : 'pins'}
+          </p>
+        </div>
+      )}
+
+      {loading && pins.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+        </div>
+      ) : (
+        <InfiniteScroll
+          dataLength={pins.length}
+          next={loadMore}
+          hasMore={hasMore}
+          loader={
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          }
+        >
+          <MasonryGrid pins={pins} onPinUpdate={handlePinUpdate} />
+        </InfiniteScroll>
+      )}
+    </div>
+  );
+};
+
+export default CategoryPage;
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+import PinForm from '../components/PinForm';
+
+interface Pin {
+  id: string;
+  title: string;
+  description: string;
+  image_url: string;
+  link?: string;
+  category: string;
+  tags?: string[];
+  visibility: 'public' | 'followers' | 'private';
+  users: {
+    id: string;
+  };
+}
+
+const EditPinPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [pin, setPin] = useState<Pin | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPin();
+  }, [id]);
+
+  const fetchPin = async () => {
+    try {
+      const response = await axios.get(`/pins/${id}`);
+
+      if (response.data.users.id !== user?.id) {
+        toast.error('You can only edit your own pins');
+        navigate(`/pin/${id}`, { replace: true });
+        return;
+      }
+
+      setPin(response.data);
+    } catch (error) {
+      console.error('Error fetching pin:', error);
+      toast.error('Pin not found');
+      navigate('/');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (submitData: FormData) => {
+    try {
+      await axios.put(`/pins/${id}`, submitData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+
+      toast.success('Pin updated successfully!');
+      navigate(`/pin/${id}`);
+    } catch (error) {
+      console.error('Update pin error:', error);
+      toast.error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to update pin'
+      );
+    }
+  };
+
+  if (loading || !pin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <PinForm
+      heading="Edit Pin"
+      submitLabel="Save changes"
+      submittingLabel="Saving..."
+      initialValues={{
+        title: pin.title,
+        description: pin.description || '',
+        link: pin.link || '',
+        category: pin.category || 'general',
+        tags: pin.tags || [],
+        visibility: pin.visibility || 'public',
+      }}
+      initialImageUrl={pin.image_url}
+      onSubmit={handleSubmit}
+    />
+  );
+};
+
+export default EditPinPage;
@@ -0,0 +1,300 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { Camera, Check, X } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+
+type UsernameStatus = 'idle' | 'checking' | 'available' | 'taken';
+
+const EditProfilePage: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const navigate = useNavigate();
+  const [formData, setFormData] = useState({
+    firstName: user?.first_name || '',
+    lastName: user?.last_name || '',
+    username: user?.username || '',
+    bio: user?.bio || '',
+  });
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState(user?.avatar_url || '');
+  const [usernameStatus, setUsernameStatus] = useState<UsernameStatus>('idle');
+  const [usernameMessage, setUsernameMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // Debounced username availability check
+  useEffect(() => {
+    const username = formData.username.trim();
+
+    if (!username || username === user?.username) {
+      setUsernameStatus('idle');
+      setUsernameMessage('');
+      return;
+    }
+
+    setUsernameStatus('checking');
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await axios.get(
+          `/users/check-username?username=${encodeURIComponent(username)}`
+        );
+        setUsernameStatus(response.data.available ? 'available' : 'taken');
+        setUsernameMessage(response.data.message);
+      } catch (error) {
+        console.error('Error checking username:', error);
+        setUsernameStatus('idle');
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [formData.username, user?.username]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }));
+  };
+
+  const handleAvatarSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      if (!file.type.startsWith('image/')) {
+        toast.error('Please select an image file');
+        return;
+      }
+
+      if (file.size > 5 * 1024 * 1024) {
+        toast.error('File size must be less than 5MB');
+        return;
+      }
+
+      if (avatarFile) {
+        URL.revokeObjectURL(avatarPreview);
+      }
+      setAvatarFile(file);
+      setAvatarPreview(URL.createObjectURL(file));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.firstName.trim() || !formData.lastName.trim()) {
+      toast.error('Please enter your name');
+      return;
+    }
+
+    if (usernameStatus === 'taken') {
+      toast.error(usernameMessage);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const submitData = new FormData();
+      if (avatarFile) {
+        submitData.append('avatar', avatarFile);
+      }
+      submitData.append('firstName', formData.firstName.trim());
+      submitData.append('lastName', formData.lastName.trim());
+      submitData.append('username', formData.username.trim());
+      submitData.append('bio', formData.bio.trim());
+
+      await axios.put(`/users/${user?.id}`, submitData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      await refreshUser();
+
+      toast.success('Profile updated!');
+      navigate(`/user/${user?.id}`);
+    } catch (error) {
+      console.error('Update profile error:', error);
+      toast.error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to update profile'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Edit Profile</h1>
+              <p className="text-sm text-gray-600 mt-1">
+                People visiting your profile will see this info
+              </p>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Link
+                to="/settings/security"
+                className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Security
+              </Link>
+              <Link
+                to="/settings/sessions"
+                className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Active sessions
+              </Link>
+              <Link
+                to="/settings/blocked"
+                className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Blocked accounts
+              </Link>
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit}>
+            <div className="p-6 space-y-6">
+              {/* Avatar */}
+              <div className="flex items-center space-x-6">
+                <img
+                  src={avatarPreview}
+                  alt={formData.username}
+                  className="w-24 h-24 rounded-full object-cover shadow"
+                />
+                <div>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    onChange={handleAvatarSelect}
+                    className="hidden"
+                    id="avatar-upload"
+                  />
+                  <label
+                    htmlFor="avatar-upload"
+                    className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-full font-medium hover:bg-gray-200 transition-colors cursor-pointer"
+                  >
+                    <Camera size={18} />
+                    <span>Change photo</span>
+                  </label>
+                  <p className="text-xs text-gray-500 mt-2">JPG, PNG or GIF, up to 5MB</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="firstName" className="block text-sm font-medium text-gray-700 mb-2">
+                    First name
+                  </label>
+                  <input
+                    id="firstName"
+                    name="firstName"
+                    type="text"
+                    required
+                    value={formData.firstName}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="lastName" className="block text-sm font-medium text-gray-700 mb-2">
+                    Last name
+                  </label>
+                  <input
+                    id="lastName"
+                    name="lastName"
+                    type="text"
+                    required
+                    value={formData.lastName}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+                  Username
+                </label>
+                <div className="relative">
+                  <input
+                    id="username"
+                    name="username"
+                    type="text"
+                    required
+                    value={formData.username}
+                    onChange={handleChange}
+                    maxLength={30}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent pr-10"
+                  />
+                  <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+                    {usernameStatus === 'checking' && (
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-400"></div>
+                    )}
+                    {usernameStatus === 'available' && <Check size={18} className="text-green-600" />}
+                    {usernameStatus === 'taken' && <X size={18} className="text-red-600" />}
+                  </div>
+                </div>
+                {usernameMessage && usernameStatus !== 'checking' && (
+                  <p className={`text-xs mt-1 ${usernameStatus === 'taken' ? 'text-red-600' : 'text-green-600'}`}>
+                    {usernameMessage}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="bio" className="block text-sm font-medium text-gray-700 mb-2">
+                  About
+                </label>
+                <textarea
+                  id="bio"
+                  name="bio"
+                  rows={4}
+                  value={formData.bio}
+                  onChange={handleChange}
+                  maxLength={500}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent resize-none"
+                  placeholder="Tell your story"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {formData.bio.length}/500 characters
+                </p>
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => navigate(-1)}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading || usernameStatus === 'checking' || usernameStatus === 'taken'}
+                className="px-6 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? (
+                  <div className="flex items-center">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    Saving...
+                  </div>
+                ) : (
+                  'Save'
+                )}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditProfilePage;
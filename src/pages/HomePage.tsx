@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { useSearchParams } from 'react-router-dom';
 import InfiniteScroll from 'react-infinite-scroll-component';
 import axios from 'axios';
 import MasonryGrid from '../components/MasonryGrid';
+import CategoryBar from '../components/CategoryBar';
+import { useAuth } from '../context/AuthContext';
 import toast from 'react-hot-toast';
 
 interface Pin {
@@ -13,6 +14,8 @@ interface Pin {
   link?: string;
   likes_count: number;
   saves_count: number;
+  liked_by_me?: boolean;
+  saved_by_me?: boolean;
   users: {
     id: string;
     username: string;
@@ -26,22 +29,23 @@ const HomePage: React.FC = () => {
   const [pins, setPins] = useState<Pin[]>([]);
   const [loading, setLoading] = useState(true);
   const [hasMore, setHasMore] = useState(true);
-  const [page, setPage] = useState(1);
-  const [searchParams] = useSearchParams();
-  const searchQuery = searchParams.get('search') || '';
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [feed, setFeed] = useState<'for-you' | 'following'>('for-you');
+  const { user } = useAuth();
 
-  const fetchPins = async (pageNum: number, reset: boolean = false) => {
-    try {
-      const params = new URLSearchParams({
-        page: pageNum.toString(),
-        limit: '20',
-      });
+  const isFollowingFeed = feed === 'following' && !!user;
 
-      if (searchQuery) {
-        params.append('search', searchQuery);
+  // Both feeds are cursor-paginated, so new pins never shift later pages
+  const fetchPins = async (reset: boolean = false) => {
+    try {
+      const params = new URLSearchParams({ limit: '20' });
+      if (!reset && cursor) {
+        params.append('cursor', cursor);
       }
 
-      const response = await axios.get(`/pins?${params.toString()}`);
+      const response = await axios.get(
+        `${isFollowingFeed ? '/pins/feed' : '/pins'}?${params.toString()}`
+      );
       const newPins = response.data.pins;
 
       if (reset) {
@@ -51,7 +55,7 @@ const HomePage: React.FC = () => {
       }
 
       setHasMore(response.data.hasMore);
-      setPage(pageNum);
+      setCursor(response.data.nextCursor);
     } catch (error) {
       console.error('Error fetching pins:', error);
       toast.error('Failed to load pins');
@@ -60,17 +64,17 @@ const HomePage: React.FC = () => {
     }
   };
 
-  // Initial load and search changes
+  // Initial load, tab changes, and login/logout (liked/saved state is per viewer)
   useEffect(() => {
     setLoading(true);
     setPins([]);
-    setPage(1);
-    fetchPins(1, true);
-  }, [searchQuery]);
+    setCursor(null);
+    fetchPins(true);
+  }, [user?.id, feed]);
 
   const loadMore = () => {
     if (!loading && hasMore) {
-      fetchPins(page + 1);
+      fetchPins();
     }
   };
 
@@ -93,20 +97,30 @@ const HomePage: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-white">
-      {/* Header */}
-      {searchQuery && (
-        <div className="bg-gray-50 py-4">
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-            <h1 className="text-2xl font-bold text-gray-900">
-              Search results for "{searchQuery}"
-            </h1>
-            <p className="text-gray-600 mt-1">
-              {pins.length} {pins.length === 1 ? 'pin' : 'pins'} found
-            </p>
-          </div>
+      {/* Feed tabs */}
+      {user && (
+        <div className="flex justify-center space-x-2 pt-4">
+          {([
+            ['for-you', 'For you'],
+            ['following', 'Following'],
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setFeed(value)}
+              className={`px-4 py-2 rounded-full font-medium transition-colors ${
+                feed === value
+                  ? 'bg-black text-white'
+                  : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
       )}
 
+      {!isFollowingFeed && <CategoryBar />}
+
       {/* Pins Grid with Infinite Scroll */}
       <InfiniteScroll
         dataLength={pins.length}
@@ -125,19 +139,18 @@ const HomePage: React.FC = () => {
           )
         }
       >
-        <MasonryGrid pins={pins} onPinUpdate={handlePinUpdate} />
-      </InfiniteScroll>
-
-      {/* Empty state for no search results */}
-      {!loading && pins.length === 0 && searchQuery && (
-        <div className="flex flex-col items-center justify-center py-16 text-gray-500">
-          <div className="w-16 h-16 bg-gray-200 rounded-full flex items-center justify-center mb-4">
-            <span className="text-2xl">🔍</span>
+        {isFollowingFeed && pins.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+            <div className="w-16 h-16 bg-gray-200 rounded-full flex items-center justify-center mb-4">
+              <span className="text-2xl">👥</span>
+            </div>
+            <h3 className="text-lg font-medium mb-2">Nothing here yet</h3>
+            <p className="text-sm">Follow people to see their latest pins here</p>
           </div>
-          <h3 className="text-lg font-medium mb-2">No pins found</h3>
-          <p className="text-sm">Try searching for something else</p>
-        </div>
-      )}
+        ) : (
+          <MasonryGrid pins={pins} onPinUpdate={handlePinUpdate} />
+        )}
+      </InfiniteScroll>
     </div>
   );
 };
@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
-import { Link, useNavigate, useLocation } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { Eye, EyeOff } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import toast from 'react-hot-toast';
+import OAuthButtons from '../components/OAuthButtons';
 
 const LoginPage: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -13,15 +14,31 @@ const LoginPage: React.FC = () => {
   const { login } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
   
   const from = location.state?.from?.pathname || '/';
 
+  // Provider sign-ins that fail are sent back here with the reason
+  useEffect(() => {
+    const oauthError = searchParams.get('oauth_error');
+    if (oauthError) {
+      toast.error(oauthError);
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
-      await login(email, password);
+      const result = await login(email, password);
+
+      if (result.twoFactorRequired) {
+        navigate('/two-factor', { state: { challengeToken: result.challengeToken, from } });
+        return;
+      }
+
       toast.success('Welcome back!');
       navigate(from, { replace: true });
     } catch (error: any) {
@@ -44,6 +61,8 @@ const LoginPage: React.FC = () => {
             <p className="text-gray-600 mt-2">Sign in to your Pinterest account</p>
           </div>
 
+          <OAuthButtons redirect={from} />
+
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-6">
             <div>
@@ -62,9 +81,17 @@ const LoginPage: React.FC = () => {
             </div>
 
             <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <Link
+                  to="/forgot-password"
+                  className="text-sm text-red-600 hover:text-red-700 font-medium transition-colors"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <div className="relative">
                 <input
                   id="password"
@@ -0,0 +1,450 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Send } from 'lucide-react';
+import InfiniteScroll from 'react-infinite-scroll-component';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../context/NotificationContext';
+import { useRealtime } from '../context/RealtimeContext';
+
+interface ChatUser {
+  id: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  avatar_url: string;
+}
+
+interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  body: string;
+  pin_id: string | null;
+  pin: {
+    id: string;
+    title: string;
+    image_url: string;
+  } | null;
+  created_at: string;
+}
+
+interface Conversation {
+  id: string;
+  other_user: ChatUser | null;
+  last_message: Pick<Message, 'id' | 'sender_id' | 'body' | 'pin_id' | 'created_at'> | null;
+  last_message_at: string | null;
+  unread_count: number;
+}
+
+interface IncomingMessage {
+  conversationId: string;
+  message: Message;
+}
+
+const timeAgo = (date: string) => {
+  const seconds = Math.floor((Date.now() - new Date(date).getTime()) / 1000);
+  if (seconds < 60) return 'just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d`;
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+const MessagesPage: React.FC = () => {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { refreshUnreadMessageCount } = useNotifications();
+  const { subscribe } = useRealtime();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [page, setPage] = useState(1);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [messagesLoading, setMessagesLoading] = useState(false);
+  const [messagesCursor, setMessagesCursor] = useState<string | null>(null);
+  const [hasEarlier, setHasEarlier] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  // Only new messages scroll the thread; loading earlier ones keeps the position
+  const scrollToEndRef = useRef(false);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    fetchConversations(1, true);
+  }, []);
+
+  useEffect(() => {
+    setConversation(null);
+    setMessages([]);
+    setDraft('');
+
+    if (conversationId) {
+      openConversation(conversationId);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (scrollToEndRef.current) {
+      threadEndRef.current?.scrollIntoView();
+      scrollToEndRef.current = false;
+    }
+  }, [messages]);
+
+  // New messages arrive live, in the open thread and in the list
+  useEffect(() => {
+    return subscribe<IncomingMessage>('message', ({ conversationId: updatedId, message }) => {
+      const isOpen = updatedId === conversationId;
+      const isIncoming = message.sender_id !== user?.id;
+
+      if (isOpen) {
+        scrollToEndRef.current = true;
+        setMessages(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message]);
+        if (isIncoming) {
+          markConversationRead(updatedId);
+        }
+      }
+
+      setConversations(prev => {
+        const existing = prev.find(listed => listed.id === updatedId);
+        if (!existing) {
+          fetchConversations(1, true);
+          return prev;
+        }
+
+        const updated = {
+          ...existing,
+          last_message: message,
+          last_message_at: message.created_at,
+          unread_count: !isOpen && isIncoming ? existing.unread_count + 1 : existing.unread_count,
+        };
+        return [updated, ...prev.filter(listed => listed.id !== updatedId)];
+      });
+    });
+  }, [conversationId, user?.id, subscribe]);
+
+  const fetchConversations = async (pageNum: number, reset: boolean = false) => {
+    try {
+      const response = await axios.get(`/conversations?page=${pageNum}&limit=20`);
+      const newConversations = response.data.conversations;
+
+      if (reset) {
+        setConversations(newConversations);
+      } else {
+        setConversations(prev => [...prev, ...newConversations]);
+      }
+
+      setHasMore(response.data.hasMore);
+      setPage(pageNum);
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+      toast.error('Failed to load conversations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openConversation = async (id: string) => {
+    setMessagesLoading(true);
+
+    try {
+      const [conversationResponse, messagesResponse] = await Promise.all([
+        axios.get(`/conversations/${id}`),
+        axios.get(`/conversations/${id}/messages`),
+      ]);
+
+      setConversation(conversationResponse.data.conversation);
+      scrollToEndRef.current = true;
+      setMessages([...messagesResponse.data.messages].reverse());
+      setMessagesCursor(messagesResponse.data.nextCursor);
+      setHasEarlier(messagesResponse.data.hasMore);
+
+      if (conversationResponse.data.conversation.unread_count > 0) {
+        markConversationRead(id);
+      }
+    } catch (error) {
+      console.error('Error fetching conversation:', error);
+      toast.error('Conversation not found');
+      navigate('/messages', { replace: true });
+    } finally {
+      setMessagesLoading(false);
+    }
+  };
+
+  const markConversationRead = async (id: string) => {
+    setConversations(prev => prev.map(listed =>
+      listed.id === id ? { ...listed, unread_count: 0 } : listed
+    ));
+
+    try {
+      await axios.post(`/conversations/${id}/read`);
+      await refreshUnreadMessageCount();
+    } catch (error) {
+      console.error('Error marking conversation as read:', error);
+    }
+  };
+
+  const loadEarlier = async () => {
+    if (!conversationId || !messagesCursor) return;
+
+    try {
+      const response = await axios.get(
+        `/conversations/${conversationId}/messages?cursor=${encodeURIComponent(messagesCursor)}`
+      );
+      setMessages(prev => [...[...response.data.messages].reverse(), ...prev]);
+      setMessagesCursor(response.data.nextCursor);
+      setHasEarlier(response.data.hasMore);
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+      toast.error('Failed to load messages');
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const body = draft.trim();
+    if (!conversationId || !body) return;
+
+    setSending(true);
+
+    try {
+      const response = await axios.post(`/conversations/${conversationId}/messages`, { body });
+      const message: Message = response.data.message;
+
+      // The pushed copy of this message is ignored once it is already in the thread
+      scrollToEndRef.current = true;
+      setMessages(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message]);
+      setDraft('');
+    } catch (error) {
+      console.error('Error sending message:', error);
+      toast.error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to send message'
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const describeLastMessage = (listed: Conversation) => {
+    const message = listed.last_message;
+    if (!message) return '';
+
+    const text = message.body || 'Sent a pin';
+    return message.sender_id === user?.id ? `You: ${text}` : text;
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-md overflow-hidden flex h-[calc(100vh-8rem)]">
+          {/* Conversation list */}
+          <div
+            className={`w-full md:w-80 md:flex-shrink-0 border-r border-gray-200 flex-col ${
+              conversationId ? 'hidden md:flex' : 'flex'
+            }`}
+          >
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h1 className="text-2xl font-bold text-gray-900">Messages</h1>
+            </div>
+
+            <div id="conversation-list" className="flex-1 overflow-y-auto">
+              {conversations.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-16 px-6 text-center text-gray-500">
+                  <h3 className="text-lg font-medium mb-2">No messages yet</h3>
+                  <p className="text-sm">Send a pin to someone from its share menu to start a conversation</p>
+                </div>
+              ) : (
+                <InfiniteScroll
+                  dataLength={conversations.length}
+                  next={() => fetchConversations(page + 1)}
+                  hasMore={hasMore}
+                  scrollableTarget="conversation-list"
+                  loader={
+                    <div className="flex justify-center py-4">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-red-600"></div>
+                    </div>
+                  }
+                >
+                  <ul className="divide-y divide-gray-100">
+                    {conversations.map((listed) => (
+                      <li key={listed.id}>
+                        <Link
+                          to={`/messages/${listed.id}`}
+                          className={`flex items-center space-x-3 px-6 py-4 hover:bg-gray-50 transition-colors ${
+                            listed.id === conversationId ? 'bg-gray-100' : ''
+                          }`}
+                        >
+                          <img
+                            src={listed.other_user?.avatar_url}
+                            alt={listed.other_user?.username}
+                            className="w-12 h-12 rounded-full object-cover flex-shrink-0"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between">
+                              <p className="font-medium text-gray-900 truncate">
+                                {listed.other_user?.first_name} {listed.other_user?.last_name}
+                              </p>
+                              {listed.last_message_at && (
+                                <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                                  {timeAgo(listed.last_message_at)}
+                                </span>
+                              )}
+                            </div>
+                            <p
+                              className={`text-sm truncate ${
+                                listed.unread_count > 0 ? 'text-gray-900 font-semibold' : 'text-gray-500'
+                              }`}
+                            >
+                              {describeLastMessage(listed)}
+                            </p>
+                          </div>
+                          {listed.unread_count > 0 && (
+                            <span className="w-2 h-2 bg-red-600 rounded-full flex-shrink-0"></span>
+                          )}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </InfiniteScroll>
+              )}
+            </div>
+          </div>
+
+          {/* Thread */}
+          <div className={`flex-1 flex-col min-w-0 ${conversationId ? 'flex' : 'hidden md:flex'}`}>
+            {!conversationId ? (
+              <div className="flex-1 flex items-center justify-center text-gray-500">
+                <p>Select a conversation</p>
+              </div>
+            ) : messagesLoading || !conversation ? (
+              <div className="flex-1 flex items-center justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center space-x-3 px-6 py-4 border-b border-gray-200">
+                  <button
+                    onClick={() => navigate('/messages')}
+                    className="md:hidden p-1 text-gray-600 hover:text-gray-900 transition-colors"
+                  >
+                    <ArrowLeft size={20} />
+                  </button>
+                  {conversation.other_user && (
+                    <Link
+                      to={`/user/${conversation.other_user.id}`}
+                      className="flex items-center space-x-3 min-w-0"
+                    >
+                      <img
+                        src={conversation.other_user.avatar_url}
+                        alt={conversation.other_user.username}
+                        className="w-10 h-10 rounded-full object-cover"
+                      />
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">
+                          {conversation.other_user.first_name} {conversation.other_user.last_name}
+                        </p>
+                        <p className="text-sm text-gray-500 truncate">@{conversation.other_user.username}</p>
+                      </div>
+                    </Link>
+                  )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+                  {hasEarlier && (
+                    <div className="flex justify-center">
+                      <button
+                        onClick={loadEarlier}
+                        className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+                      >
+                        Load earlier messages
+                      </button>
+                    </div>
+                  )}
+
+                  {messages.map((message) => {
+                    const isMine = message.sender_id === user?.id;
+
+                    return (
+                      <div key={message.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-xs space-y-1 flex flex-col ${isMine ? 'items-end' : 'items-start'}`}>
+                          {message.pin ? (
+                            <Link
+                              to={`/pin/${message.pin.id}`}
+                              className="block w-48 bg-white rounded-2xl shadow border border-gray-100 overflow-hidden hover:shadow-md transition-shadow"
+                            >
+                              <img
+                                src={message.pin.image_url}
+                                alt={message.pin.title}
+                                className="w-full h-48 object-cover"
+                              />
+                              <p className="px-3 py-2 text-sm font-medium text-gray-900 truncate">
+                                {message.pin.title}
+                              </p>
+                            </Link>
+                          ) : message.pin_id !== null || !message.body ? (
+                            <p className="px-4 py-2 rounded-2xl bg-gray-50 text-sm text-gray-500 italic">
+                              This pin is no longer available
+                            </p>
+                          ) : null}
+                          {message.body && (
+                            <p
+                              className={`px-4 py-2 rounded-2xl text-sm whitespace-pre-wrap break-words ${
+                                isMine ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-900'
+                              }`}
+                            >
+                              {message.body}
+                            </p>
+                          )}
+                          <span className="text-xs text-gray-400">{timeAgo(message.created_at)}</span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <div ref={threadEndRef}></div>
+                </div>
+
+                <form onSubmit={handleSend} className="flex items-center space-x-3 px-6 py-4 border-t border-gray-200">
+                  <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    maxLength={2000}
+                    placeholder="Send a message"
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-full focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                  <button
+                    type="submit"
+                    disabled={sending || !draft.trim()}
+                    title="Send"
+                    className="p-2 bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Send size={18} />
+                  </button>
+                </form>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessagesPage;
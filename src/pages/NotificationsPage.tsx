@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import InfiniteScroll from 'react-infinite-scroll-component';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useNotifications } from '../context/NotificationContext';
+
+interface Actor {
+  id: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  avatar_url: string;
+}
+
+interface NotificationGroup {
+  id: string;
+  type: 'like' | 'save' | 'follow' | 'comment' | 'reply';
+  pin: {
+    id: string;
+    title: string;
+    image_url: string;
+  } | null;
+  actors: Actor[];
+  actors_count: number;
+  latest_at: string;
+  unread: boolean;
+  notification_ids: string[];
+}
+
+const actions: Record<NotificationGroup['type'], string> = {
+  like: 'liked your pin',
+  save: 'saved your pin',
+  follow: 'started following you',
+  comment: 'commented on your pin',
+  reply: 'replied to your comment',
+};
+
+// "Ana", "Ana and Ben", "Ana, Ben and 3 others"
+const describeActors = (group: NotificationGroup) => {
+  const names = group.actors.map(actor => actor.first_name || actor.username);
+  const others = group.actors_count - names.length;
+
+  if (group.actors_count === 1) {
+    return names[0];
+  }
+  if (others <= 0) {
+    return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  }
+  return `${names.join(', ')} and ${others} ${others === 1 ? 'other' : 'others'}`;
+};
+
+const timeAgo = (date: string) => {
+  const seconds = Math.floor((Date.now() - new Date(date).getTime()) / 1000);
+  if (seconds < 60) return 'just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d`;
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+const NotificationsPage: React.FC = () => {
+  const { unreadCount, markAsRead } = useNotifications();
+  const [groups, setGroups] = useState<NotificationGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchNotifications(true);
+  }, []);
+
+  const fetchNotifications = async (reset: boolean = false) => {
+    try {
+      const params = new URLSearchParams();
+      if (!reset && cursor) {
+        params.append('cursor', cursor);
+      }
+
+      const response = await axios.get(`/notifications?${params.toString()}`);
+      setGroups(prev => reset ? response.data.groups : [...prev, ...response.data.groups]);
+      setCursor(response.data.nextCursor);
+      setHasMore(response.data.hasMore);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      toast.error('Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAsRead();
+      setGroups(prev => prev.map(group => ({ ...group, unread: false })));
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  const handleOpen = (group: NotificationGroup) => {
+    if (!group.unread) return;
+
+    setGroups(prev => prev.map(other =>
+      other.id === group.id ? { ...other, unread: false } : other
+    ));
+    markAsRead(group.notification_ids).catch((error) => {
+      console.error('Error marking notifications as read:', error);
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-gray-900">Notifications</h1>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {groups.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+              <div className="w-16 h-16 bg-gray-200 rounded-full flex items-center justify-center mb-4">
+                <span className="text-2xl">🔔</span>
+              </div>
+              <h3 className="text-lg font-medium mb-2">No notifications yet</h3>
+              <p className="text-sm">Likes, saves, comments and new followers will show up here</p>
+            </div>
+          ) : (
+            <InfiniteScroll
+              dataLength={groups.length}
+              next={() => fetchNotifications()}
+              hasMore={hasMore}
+              loader={
+                <div className="flex justify-center py-4">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-red-600"></div>
+                </div>
+              }
+            >
+              <ul className="divide-y divide-gray-100">
+                {groups.map((group) => (
+                  <li key={group.id}>
+                    <Link
+                      to={group.pin ? `/pin/${group.pin.id}` : `/user/${group.actors[0]?.id}`}
+                      onClick={() => handleOpen(group)}
+                      className={`flex items-center space-x-4 px-6 py-4 hover:bg-gray-50 transition-colors ${
+                        group.unread ? 'bg-red-50' : ''
+                      }`}
+                    >
+                      <div className="flex -space-x-3 flex-shrink-0">
+                        {group.actors.map((actor) => (
+                          <img
+                            key={actor.id}
+                            src={actor.avatar_url}
+                            alt={actor.username}
+                            className="w-10 h-10 rounded-full object-cover border-2 border-white"
+                          />
+                        ))}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-900">
+                          <span className="font-semibold">{describeActors(group)}</span>{' '}
+                          {actions[group.type]}
+                          {group.pin && <span className="text-gray-600"> "{group.pin.title}"</span>}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">{timeAgo(group.latest_at)}</p>
+                      </div>
+                      {group.pin && (
+                        <img
+                          src={group.pin.image_url}
+                          alt={group.pin.title}
+                          className="w-12 h-12 rounded-lg object-cover flex-shrink-0"
+                        />
+                      )}
+                      {group.unread && <span className="w-2 h-2 bg-red-600 rounded-full flex-shrink-0"></span>}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </InfiniteScroll>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationsPage;
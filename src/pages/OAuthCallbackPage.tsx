@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+
+// Landing page after a provider sign-in. The server has already set the session cookie,
+// which AuthProvider turns into a user on load; this page just waits for that.
+const OAuthCallbackPage: React.FC = () => {
+  const { user, loading } = useAuth();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (loading) return;
+
+    if (user) {
+      toast.success('Welcome!');
+      const redirect = searchParams.get('redirect') || '/';
+      navigate(redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/', { replace: true });
+    } else {
+      toast.error('Sign-in failed, please try again');
+      navigate('/login', { replace: true });
+    }
+  }, [user, loading, searchParams, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+    </div>
+  );
+};
+
+export default OAuthCallbackPage;
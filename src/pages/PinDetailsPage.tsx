@@ -1,9 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { Heart, Bookmark, Share, ExternalLink, ArrowLeft, MoreHorizontal } from 'lucide-react';
+import { Heart, Bookmark, Share, ExternalLink, ArrowLeft, MoreHorizontal, Pencil, Trash2, Send, Link as LinkIcon, Lock, Users, Flag, EyeOff } from 'lucide-react';
 import axios from 'axios';
 import toast from 'react-hot-toast';
 import { useAuth } from '../context/AuthContext';
+import { usePinUpdates } from '../context/RealtimeContext';
+import BoardPicker from '../components/BoardPicker';
+import CommentPanel from '../components/CommentPanel';
+import RelatedPins from '../components/RelatedPins';
+import ConfirmDialog from '../components/ConfirmDialog';
+import UndoToast from '../components/UndoToast';
+import SendPinModal from '../components/SendPinModal';
+import ReportModal from '../components/ReportModal';
 
 interface Pin {
   id: string;
@@ -14,7 +22,12 @@ interface Pin {
   category: string;
   likes_count: number;
   saves_count: number;
+  liked_by_me?: boolean;
+  saved_by_me?: boolean;
   created_at: string;
+  tags?: string[];
+  visibility: 'public' | 'followers' | 'private';
+  hidden_at?: string | null;
   users: {
     id: string;
     username: string;
@@ -34,10 +47,22 @@ const PinDetailsPage: React.FC = () => {
   const [isSaved, setIsSaved] = useState(false);
   const [likesCount, setLikesCount] = useState(0);
   const [savesCount, setSavesCount] = useState(0);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isSendOpen, setIsSendOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
 
   useEffect(() => {
     fetchPin();
-  }, [id]);
+  }, [id, user?.id]);
+
+  // Live counts while other people like or save this pin
+  usePinUpdates(id ? [id] : [], (_, updates) => {
+    setLikesCount(updates.likes_count);
+    setSavesCount(updates.saves_count);
+  });
 
   const fetchPin = async () => {
     try {
@@ -45,6 +70,8 @@ const PinDetailsPage: React.FC = () => {
       setPin(response.data);
       setLikesCount(response.data.likes_count);
       setSavesCount(response.data.saves_count);
+      setIsLiked(response.data.liked_by_me ?? false);
+      setIsSaved(response.data.saved_by_me ?? false);
     } catch (error) {
       console.error('Error fetching pin:', error);
       toast.error('Pin not found');
@@ -77,20 +104,37 @@ const PinDetailsPage: React.FC = () => {
       return;
     }
 
+    // Unsaved pins go through the board picker
+    if (!isSaved) {
+      setIsPickerOpen(true);
+      return;
+    }
+
     try {
-      const response = await axios.post(`/pins/${id}/save`);
-      const newSavedState = response.data.saved;
+      await axios.post(`/pins/${id}/save`);
       
-      setIsSaved(newSavedState);
-      setSavesCount(prev => newSavedState ? prev + 1 : prev - 1);
+      setIsSaved(false);
+      setSavesCount(prev => prev - 1);
       
-      toast.success(newSavedState ? 'Pin saved!' : 'Pin unsaved');
+      toast.success('Pin unsaved');
     } catch (error) {
       toast.error('Failed to save pin');
     }
   };
 
+  const handleBoardSaved = (board: { name: string } | null) => {
+    setIsPickerOpen(false);
+    setIsSaved(true);
+    setSavesCount(prev => prev + 1);
+
+    toast.success(board ? `Saved to ${board.name}` : 'Pin saved!');
+  };
+
+  const closePicker = useCallback(() => setIsPickerOpen(false), []);
+
   const handleShare = async () => {
+    setIsShareOpen(false);
+
     if (navigator.share) {
       try {
         await navigator.share({
@@ -108,6 +152,33 @@ const PinDetailsPage: React.FC = () => {
     }
   };
 
+  const handleUndoDelete = async () => {
+    try {
+      await axios.post(`/pins/${id}/restore`);
+      toast.success('Pin restored');
+      navigate(`/pin/${id}`);
+    } catch (error) {
+      console.error('Error restoring pin:', error);
+      toast.error('Pin can no longer be restored');
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsConfirmOpen(false);
+
+    try {
+      await axios.delete(`/pins/${id}`);
+      toast(
+        (t) => <UndoToast toastId={t.id} message="Pin deleted" onUndo={handleUndoDelete} />,
+        { duration: 8000 }
+      );
+      navigate(`/user/${user?.id}`);
+    } catch (error) {
+      console.error('Error deleting pin:', error);
+      toast.error('Failed to delete pin');
+    }
+  };
+
   const handleExternalLink = () => {
     if (pin?.link) {
       window.open(pin.link.startsWith('http') ? pin.link : `https://${pin.link}`, '_blank');
@@ -150,15 +221,84 @@ const PinDetailsPage: React.FC = () => {
             </button>
             
             <div className="flex items-center space-x-3">
-              <button
-                onClick={handleShare}
-                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
-              >
-                <Share size={20} />
-              </button>
-              <button className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors">
-                <MoreHorizontal size={20} />
-              </button>
+              <div className="relative">
+                <button
+                  onClick={() => setIsShareOpen(!isShareOpen)}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
+                >
+                  <Share size={20} />
+                </button>
+                {isShareOpen && (
+                  <div className="absolute right-0 mt-2 w-44 bg-white rounded-xl shadow-lg border border-gray-100 py-2 z-50">
+                    {/* Only public pins can be sent; the recipient may not see anything else */}
+                    {user && pin.visibility === 'public' && (
+                      <button
+                        onClick={() => {
+                          setIsShareOpen(false);
+                          setIsSendOpen(true);
+                        }}
+                        className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                      >
+                        <Send size={16} />
+                        <span>Send to</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={handleShare}
+                      className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                    >
+                      <LinkIcon size={16} />
+                      <span>{typeof navigator.share === 'function' ? 'Share link' : 'Copy link'}</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+              {user && (
+                <div className="relative">
+                  <button
+                    onClick={() => setIsMenuOpen(!isMenuOpen)}
+                    className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
+                  >
+                    <MoreHorizontal size={20} />
+                  </button>
+                  {isMenuOpen && (
+                    <div className="absolute right-0 mt-2 w-44 bg-white rounded-xl shadow-lg border border-gray-100 py-2 z-50">
+                      {user.id === pin.users.id ? (
+                        <>
+                          <Link
+                            to={`/pin/${pin.id}/edit`}
+                            className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                          >
+                            <Pencil size={16} />
+                            <span>Edit pin</span>
+                          </Link>
+                          <button
+                            onClick={() => {
+                              setIsMenuOpen(false);
+                              setIsConfirmOpen(true);
+                            }}
+                            className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-red-600 hover:bg-gray-100 transition-colors"
+                          >
+                            <Trash2 size={16} />
+                            <span>Delete pin</span>
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setIsMenuOpen(false);
+                            setIsReportOpen(true);
+                          }}
+                          className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                        >
+                          <Flag size={16} />
+                          <span>Report pin</span>
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -198,16 +338,21 @@ const PinDetailsPage: React.FC = () => {
                     <span>{likesCount}</span>
                   </button>
                   
-                  <button
-                    onClick={handleSave}
-                    className={`px-4 py-2 rounded-full font-medium transition-colors ${
-                      isSaved
-                        ? 'bg-black text-white'
-                        : 'bg-red-600 text-white hover:bg-red-700'
-                    }`}
-                  >
-                    {isSaved ? 'Saved' : 'Save'}
-                  </button>
+                  <div className="relative">
+                    <button
+                      onClick={handleSave}
+                      className={`px-4 py-2 rounded-full font-medium transition-colors ${
+                        isSaved
+                          ? 'bg-black text-white'
+                          : 'bg-red-600 text-white hover:bg-red-700'
+                      }`}
+                    >
+                      {isSaved ? 'Saved' : 'Save'}
+                    </button>
+                    {isPickerOpen && (
+                      <BoardPicker pinId={pin.id} onSaved={handleBoardSaved} onClose={closePicker} />
+                    )}
+                  </div>
                 </div>
 
                 {pin.link && (
@@ -223,6 +368,19 @@ const PinDetailsPage: React.FC = () => {
 
               {/* Pin Info */}
               <div className="flex-1">
+                {pin.hidden_at ? (
+                  <div className="inline-flex items-center space-x-1 px-3 py-1 mb-3 bg-red-50 text-red-700 text-sm font-medium rounded-full">
+                    <EyeOff size={14} />
+                    <span>Hidden by moderators</span>
+                  </div>
+                ) : pin.visibility !== 'public' && (
+                  <div className="inline-flex items-center space-x-1 px-3 py-1 mb-3 bg-gray-100 text-gray-700 text-sm font-medium rounded-full">
+                    {pin.visibility === 'private' ? <Lock size={14} /> : <Users size={14} />}
+                    <span>
+                      {pin.visibility === 'private' ? 'Only you can see this Pin' : 'Visible to followers'}
+                    </span>
+                  </div>
+                )}
                 <h1 className="text-3xl font-bold text-gray-900 mb-4">
                   {pin.title}
                 </h1>
@@ -234,9 +392,12 @@ const PinDetailsPage: React.FC = () => {
                 )}
 
                 <div className="flex items-center space-x-2 text-sm text-gray-500 mb-6">
-                  <span className="bg-gray-100 px-2 py-1 rounded-full">
+                  <Link
+                    to={`/category/${pin.category}`}
+                    className="bg-gray-100 px-2 py-1 rounded-full hover:bg-gray-200 transition-colors"
+                  >
                     {pin.category.charAt(0).toUpperCase() + pin.category.slice(1)}
-                  </span>
+                  </Link>
                   <span>•</span>
                   <span>
                     {new Date(pin.created_at).toLocaleDateString('en-US', {
@@ -247,6 +408,21 @@ const PinDetailsPage: React.FC = () => {
                   </span>
                 </div>
 
+                {/* Tags */}
+                {pin.tags && pin.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-6">
+                    {pin.tags.map((tag) => (
+                      <Link
+                        key={tag}
+                        to={`/tag/${tag}`}
+                        className="text-sm text-gray-700 bg-gray-100 px-3 py-1 rounded-full hover:bg-gray-200 transition-colors"
+                      >
+                        #{tag}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+
                 {/* Stats */}
                 <div className="flex items-center space-x-6 mb-8 text-sm text-gray-600">
                   <div className="flex items-center space-x-1">
@@ -279,10 +455,29 @@ const PinDetailsPage: React.FC = () => {
                   </div>
                 </Link>
               </div>
+
+              {/* Comments */}
+              <CommentPanel pinId={pin.id} pinOwnerId={pin.users.id} />
             </div>
           </div>
         </div>
       </div>
+
+      {/* More like this */}
+      <RelatedPins pinId={pin.id} />
+
+      {isConfirmOpen && (
+        <ConfirmDialog
+          title="Delete this pin?"
+          message="The pin will be removed from your profile and any boards it was saved to."
+          onConfirm={handleDelete}
+          onCancel={() => setIsConfirmOpen(false)}
+        />
+      )}
+
+      {isSendOpen && <SendPinModal pinId={pin.id} onClose={() => setIsSendOpen(false)} />}
+
+      {isReportOpen && <ReportModal pinId={pin.id} onClose={() => setIsReportOpen(false)} />}
     </div>
   );
 };
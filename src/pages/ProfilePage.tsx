@@ -1,10 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
-import { Settings, UserPlus, UserMinus } from 'lucide-react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import InfiniteScroll from 'react-infinite-scroll-component';
+import { Settings, UserPlus, UserMinus, Plus, MessageCircle, MoreHorizontal, Flag, Ban, VolumeX, Volume2 } from 'lucide-react';
 import axios from 'axios';
 import toast from 'react-hot-toast';
 import { useAuth } from '../context/AuthContext';
 import MasonryGrid from '../components/MasonryGrid';
+import BoardGrid from '../components/BoardGrid';
+import FollowListModal from '../components/FollowListModal';
+import ReportModal from '../components/ReportModal';
+import ConfirmDialog from '../components/ConfirmDialog';
 
 interface User {
   id: string;
@@ -16,6 +21,9 @@ interface User {
   pins_count: number;
   followers_count: number;
   following_count: number;
+  is_following: boolean;
+  is_blocked?: boolean;
+  is_muted?: boolean;
 }
 
 interface Pin {
@@ -26,6 +34,8 @@ interface Pin {
   link?: string;
   likes_count: number;
   saves_count: number;
+  liked_by_me?: boolean;
+  saved_by_me?: boolean;
   users: {
     id: string;
     username: string;
@@ -35,44 +45,98 @@ interface Pin {
   };
 }
 
+type PinSort = 'newest' | 'most_liked' | 'most_saved';
+
+const sortOptions: [PinSort, string][] = [
+  ['newest', 'Newest'],
+  ['most_liked', 'Most liked'],
+  ['most_saved', 'Most saved'],
+];
+
+interface Board {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string;
+  pins_count: number;
+  cover_images: string[];
+}
+
 const ProfilePage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const { user: currentUser } = useAuth();
+  const navigate = useNavigate();
   const [profileUser, setProfileUser] = useState<User | null>(null);
   const [pins, setPins] = useState<Pin[]>([]);
+  const [pinsCursor, setPinsCursor] = useState<string | null>(null);
+  const [pinsHasMore, setPinsHasMore] = useState(false);
   const [savedPins, setSavedPins] = useState<Pin[]>([]);
+  const [savedCursor, setSavedCursor] = useState<string | null>(null);
+  const [savedHasMore, setSavedHasMore] = useState(false);
+  const [savedTotal, setSavedTotal] = useState(0);
+  const [allSavedTotal, setAllSavedTotal] = useState(0);
+  const [sort, setSort] = useState<PinSort>('newest');
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [newBoardName, setNewBoardName] = useState('');
+  const [isCreatingBoard, setIsCreatingBoard] = useState(false);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'created' | 'saved'>('created');
   const [isFollowing, setIsFollowing] = useState(false);
   const [followersCount, setFollowersCount] = useState(0);
+  const [followList, setFollowList] = useState<'followers' | 'following' | null>(null);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isConfirmBlockOpen, setIsConfirmBlockOpen] = useState(false);
 
   const isOwnProfile = currentUser?.id === id;
 
   useEffect(() => {
     if (id) {
       fetchUserProfile();
-      fetchUserPins();
+      fetchBoards();
       if (isOwnProfile) {
-        fetchSavedPins();
+        fetchAllSavedTotal();
       }
     }
   }, [id, isOwnProfile]);
 
+  // Both pin lists start over whenever the sort changes
+  useEffect(() => {
+    if (id) {
+      setPins([]);
+      setPinsCursor(null);
+      fetchUserPins(true);
+      setSavedPins([]);
+      setSavedCursor(null);
+      if (isOwnProfile) {
+        fetchSavedPins(true);
+      }
+    }
+  }, [id, isOwnProfile, sort]);
+
   const fetchUserProfile = async () => {
     try {
       const response = await axios.get(`/users/${id}`);
       setProfileUser(response.data);
       setFollowersCount(response.data.followers_count);
+      setIsFollowing(response.data.is_following);
     } catch (error) {
       console.error('Error fetching user profile:', error);
       toast.error('User not found');
     }
   };
 
-  const fetchUserPins = async () => {
+  const fetchUserPins = async (reset: boolean = false) => {
     try {
-      const response = await axios.get(`/users/${id}/pins`);
-      setPins(response.data.pins);
+      const params = new URLSearchParams({ limit: '20', sort });
+      if (!reset && pinsCursor) {
+        params.append('cursor', pinsCursor);
+      }
+
+      const response = await axios.get(`/users/${id}/pins?${params.toString()}`);
+      setPins(prev => reset ? response.data.pins : [...prev, ...response.data.pins]);
+      setPinsCursor(response.data.nextCursor);
+      setPinsHasMore(response.data.hasMore);
     } catch (error) {
       console.error('Error fetching user pins:', error);
     } finally {
@@ -80,17 +144,92 @@ const ProfilePage: React.FC = () => {
     }
   };
 
-  const fetchSavedPins = async () => {
+  const fetchBoards = async () => {
+    try {
+      const response = await axios.get(`/users/${id}/boards`);
+      setBoards(response.data.boards);
+    } catch (error) {
+      console.error('Error fetching boards:', error);
+    }
+  };
+
+  // Saves that haven't been filed under a board yet
+  const fetchSavedPins = async (reset: boolean = false) => {
     if (!isOwnProfile) return;
-    
+
     try {
-      const response = await axios.get(`/users/${id}/saved`);
-      setSavedPins(response.data.pins);
+      const params = new URLSearchParams({ limit: '20', sort, unorganized: 'true' });
+      if (!reset && savedCursor) {
+        params.append('cursor', savedCursor);
+      }
+
+      const response = await axios.get(`/users/${id}/saved?${params.toString()}`);
+      setSavedPins(prev => reset ? response.data.pins : [...prev, ...response.data.pins]);
+      setSavedCursor(response.data.nextCursor);
+      setSavedHasMore(response.data.hasMore);
+      if (reset) {
+        setSavedTotal(response.data.total);
+      }
     } catch (error) {
       console.error('Error fetching saved pins:', error);
     }
   };
 
+  // Every pin the user saved, on a board or not, for the Saved tab label
+  const fetchAllSavedTotal = async () => {
+    try {
+      const response = await axios.get(`/users/${id}/saved?limit=1`);
+      setAllSavedTotal(response.data.total);
+    } catch (error) {
+      console.error('Error fetching saved pins count:', error);
+    }
+  };
+
+  const handleCreateBoard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBoardName.trim()) return;
+
+    try {
+      const response = await axios.post('/boards', { name: newBoardName.trim() });
+      setBoards(prev => [...prev, response.data.board]);
+      setNewBoardName('');
+      setIsCreatingBoard(false);
+      toast.success('Board created!');
+    } catch (error) {
+      console.error('Error creating board:', error);
+      toast.error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to create board'
+      );
+    }
+  };
+
+  // Keep the pin count in step with optimistic deletes (and their undo)
+  const handlePinRemove = () => {
+    setProfileUser(prev => prev && { ...prev, pins_count: prev.pins_count - 1 });
+  };
+
+  const handlePinRestore = () => {
+    setProfileUser(prev => prev && { ...prev, pins_count: prev.pins_count + 1 });
+  };
+
+  const handleMoveBoard = async (index: number, direction: -1 | 1) => {
+    const previousBoards = boards;
+    const reordered = [...boards];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, moved);
+    setBoards(reordered);
+
+    try {
+      await axios.put('/boards/reorder', { boardIds: reordered.map(board => board.id) });
+    } catch (error) {
+      console.error('Error reordering boards:', error);
+      toast.error('Failed to reorder boards');
+      setBoards(previousBoards);
+    }
+  };
+
   const handleFollow = async () => {
     if (!currentUser) {
       toast.error('Please log in to follow users');
@@ -110,6 +249,82 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleMessage = async () => {
+    if (!currentUser) {
+      toast.error('Please log in to send messages');
+      return;
+    }
+
+    try {
+      const response = await axios.post('/conversations', { userId: id });
+      navigate(`/messages/${response.data.conversation.id}`);
+    } catch (error) {
+      console.error('Error starting conversation:', error);
+      toast.error('Failed to start conversation');
+    }
+  };
+
+  // Blocking hides both people's pins from each other and ends any follow, so reload both
+  const handleToggleBlock = async () => {
+    setIsConfirmBlockOpen(false);
+
+    try {
+      const response = await axios.post(`/users/${id}/block`);
+      toast.success(response.data.blocked ? 'User blocked' : 'User unblocked');
+      await Promise.all([fetchUserProfile(), fetchUserPins(true)]);
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      toast.error('Failed to update block');
+    }
+  };
+
+  const handleToggleMute = async () => {
+    setIsMenuOpen(false);
+
+    try {
+      const response = await axios.post(`/users/${id}/mute`);
+      setProfileUser(prev => prev && { ...prev, is_muted: response.data.muted });
+      toast.success(response.data.muted ? 'Their pins won\'t show up in your feeds' : 'User unmuted');
+    } catch (error) {
+      console.error('Error muting user:', error);
+      toast.error('Failed to update mute');
+    }
+  };
+
+  // Following someone from a list on your own profile changes your following count
+  const handleListFollowChange = (following: boolean) => {
+    if (isOwnProfile) {
+      setProfileUser(prev => prev && {
+        ...prev,
+        following_count: prev.following_count + (following ? 1 : -1)
+      });
+    }
+  };
+
+  const loader = (
+    <div className="flex justify-center py-8">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+    </div>
+  );
+
+  const sortPicker = (
+    <div className="flex space-x-2">
+      {sortOptions.map(([value, label]) => (
+        <button
+          key={value}
+          onClick={() => setSort(value)}
+          className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+            sort === value
+              ? 'bg-black text-white'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -128,8 +343,6 @@ const ProfilePage: React.FC = () => {
     );
   }
 
-  const displayPins = activeTab === 'created' ? pins : savedPins;
-
   return (
     <div className="min-h-screen bg-white">
       {/* Profile Header */}
@@ -162,35 +375,102 @@ const ProfilePage: React.FC = () => {
                 <p className="text-2xl font-bold text-gray-900">{profileUser.pins_count}</p>
                 <p className="text-gray-600">Pins</p>
               </div>
-              <div className="text-center">
+              <button
+                onClick={() => setFollowList('followers')}
+                className="text-center hover:opacity-75 transition-opacity"
+              >
                 <p className="text-2xl font-bold text-gray-900">{followersCount}</p>
                 <p className="text-gray-600">Followers</p>
-              </div>
-              <div className="text-center">
+              </button>
+              <button
+                onClick={() => setFollowList('following')}
+                className="text-center hover:opacity-75 transition-opacity"
+              >
                 <p className="text-2xl font-bold text-gray-900">{profileUser.following_count}</p>
                 <p className="text-gray-600">Following</p>
-              </div>
+              </button>
             </div>
 
             {/* Action Buttons */}
             <div className="flex justify-center space-x-4">
               {isOwnProfile ? (
-                <button className="flex items-center space-x-2 px-6 py-2 bg-gray-100 text-gray-700 rounded-full font-medium hover:bg-gray-200 transition-colors">
+                <Link
+                  to="/settings/profile"
+                  className="flex items-center space-x-2 px-6 py-2 bg-gray-100 text-gray-700 rounded-full font-medium hover:bg-gray-200 transition-colors"
+                >
                   <Settings size={18} />
                   <span>Edit Profile</span>
-                </button>
-              ) : (
+                </Link>
+              ) : profileUser.is_blocked ? (
                 <button
-                  onClick={handleFollow}
-                  className={`flex items-center space-x-2 px-6 py-2 rounded-full font-medium transition-colors ${
-                    isFollowing
-                      ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                      : 'bg-red-600 text-white hover:bg-red-700'
-                  }`}
+                  onClick={handleToggleBlock}
+                  className="flex items-center space-x-2 px-6 py-2 bg-gray-100 text-gray-700 rounded-full font-medium hover:bg-gray-200 transition-colors"
                 >
-                  {isFollowing ? <UserMinus size={18} /> : <UserPlus size={18} />}
-                  <span>{isFollowing ? 'Unfollow' : 'Follow'}</span>
+                  <Ban size={18} />
+                  <span>Unblock</span>
                 </button>
+              ) : (
+                <>
+                  <button
+                    onClick={handleFollow}
+                    className={`flex items-center space-x-2 px-6 py-2 rounded-full font-medium transition-colors ${
+                      isFollowing
+                        ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        : 'bg-red-600 text-white hover:bg-red-700'
+                    }`}
+                  >
+                    {isFollowing ? <UserMinus size={18} /> : <UserPlus size={18} />}
+                    <span>{isFollowing ? 'Unfollow' : 'Follow'}</span>
+                  </button>
+                  <button
+                    onClick={handleMessage}
+                    className="flex items-center space-x-2 px-6 py-2 bg-gray-100 text-gray-700 rounded-full font-medium hover:bg-gray-200 transition-colors"
+                  >
+                    <MessageCircle size={18} />
+                    <span>Message</span>
+                  </button>
+                  {currentUser && (
+                    <div className="relative">
+                      <button
+                        onClick={() => setIsMenuOpen(!isMenuOpen)}
+                        className="p-2 bg-gray-100 text-gray-700 rounded-full hover:bg-gray-200 transition-colors"
+                      >
+                        <MoreHorizontal size={22} />
+                      </button>
+                      {isMenuOpen && (
+                        <div className="absolute right-0 mt-2 w-44 bg-white rounded-xl shadow-lg border border-gray-100 py-2 z-50">
+                          <button
+                            onClick={handleToggleMute}
+                            className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                          >
+                            {profileUser.is_muted ? <Volume2 size={16} /> : <VolumeX size={16} />}
+                            <span>{profileUser.is_muted ? 'Unmute' : 'Mute'}</span>
+                          </button>
+                          <button
+                            onClick={() => {
+                              setIsMenuOpen(false);
+                              setIsConfirmBlockOpen(true);
+                            }}
+                            className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                          >
+                            <Ban size={16} />
+                            <span>Block</span>
+                          </button>
+                          <button
+                            onClick={() => {
+                              setIsMenuOpen(false);
+                              setIsReportOpen(true);
+                            }}
+                            className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                          >
+                            <Flag size={16} />
+                            <span>Report user</span>
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </>
               )}
             </div>
           </div>
@@ -209,47 +489,161 @@ const ProfilePage: React.FC = () => {
                   : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
               }`}
             >
-              Created ({pins.length})
+              Created ({profileUser.pins_count})
+            </button>
+            <button
+              onClick={() => setActiveTab('saved')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'saved'
+                  ? 'border-black text-black'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {isOwnProfile
+                ? `Saved (${allSavedTotal})`
+                : `Saved (${boards.length} ${boards.length === 1 ? 'board' : 'boards'})`
+              }
             </button>
-            {isOwnProfile && (
-              <button
-                onClick={() => setActiveTab('saved')}
-                className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
-                  activeTab === 'saved'
-                    ? 'border-black text-black'
-                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-                }`}
-              >
-                Saved ({savedPins.length})
-              </button>
-            )}
           </nav>
         </div>
       </div>
 
       {/* Pins Grid */}
-      <div className="py-8">
-        {displayPins.length > 0 ? (
-          <MasonryGrid pins={displayPins} />
-        ) : (
-          <div className="flex flex-col items-center justify-center py-16 text-gray-500">
-            <div className="w-16 h-16 bg-gray-200 rounded-full flex items-center justify-center mb-4">
-              <span className="text-2xl">📌</span>
+      {activeTab === 'created' && (
+        <div className="py-8">
+          {profileUser.pins_count > 0 ? (
+            <>
+              <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mb-4 flex justify-end">
+                {sortPicker}
+              </div>
+              <InfiniteScroll
+                dataLength={pins.length}
+                next={() => fetchUserPins()}
+                hasMore={pinsHasMore}
+                loader={loader}
+              >
+                <MasonryGrid pins={pins} onPinRemove={handlePinRemove} onPinRestore={handlePinRestore} />
+              </InfiniteScroll>
+            </>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+              <div className="w-16 h-16 bg-gray-200 rounded-full flex items-center justify-center mb-4">
+                <span className="text-2xl">📌</span>
+              </div>
+              <h3 className="text-lg font-medium mb-2">No pins created yet</h3>
+              <p className="text-sm">
+                {isOwnProfile
+                  ? 'Create your first pin to get started!'
+                  : 'This user hasn\'t created any pins yet'
+                }
+              </p>
             </div>
-            <h3 className="text-lg font-medium mb-2">
-              {activeTab === 'created' ? 'No pins created yet' : 'No pins saved yet'}
-            </h3>
-            <p className="text-sm">
-              {isOwnProfile && activeTab === 'created' 
-                ? 'Create your first pin to get started!'
-                : activeTab === 'created'
-                ? 'This user hasn\'t created any pins yet'
-                : 'Save pins you love to see them here'
-              }
-            </p>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
+
+      {/* Boards */}
+      {activeTab === 'saved' && (
+        <div className="py-8">
+          {isOwnProfile && (
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mb-6 flex justify-end">
+              {isCreatingBoard ? (
+                <form onSubmit={handleCreateBoard} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    autoFocus
+                    value={newBoardName}
+                    onChange={(e) => setNewBoardName(e.target.value)}
+                    placeholder="Board name"
+                    maxLength={50}
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!newBoardName.trim()}
+                    className="px-4 py-2 bg-red-600 text-white rounded-full text-sm font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+                  >
+                    Create
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setIsCreatingBoard(false)}
+                    className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <button
+                  onClick={() => setIsCreatingBoard(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-full text-sm font-medium hover:bg-gray-200 transition-colors"
+                >
+                  <Plus size={16} />
+                  <span>Create board</span>
+                </button>
+              )}
+            </div>
+          )}
+
+          {boards.length > 0 ? (
+            <BoardGrid boards={boards} onMove={isOwnProfile ? handleMoveBoard : undefined} />
+          ) : (
+            <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+              <div className="w-16 h-16 bg-gray-200 rounded-full flex items-center justify-center mb-4">
+                <span className="text-2xl">📌</span>
+              </div>
+              <h3 className="text-lg font-medium mb-2">No boards yet</h3>
+              <p className="text-sm">
+                {isOwnProfile
+                  ? 'Create a board to organize the pins you save'
+                  : 'This user hasn\'t created any boards yet'
+                }
+              </p>
+            </div>
+          )}
+
+          {/* Unorganized saves */}
+          {isOwnProfile && savedTotal > 0 && (
+            <div className="mt-12">
+              <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 flex items-center justify-between">
+                <h2 className="text-xl font-bold text-gray-900">
+                  Unorganized ideas ({savedTotal})
+                </h2>
+                {sortPicker}
+              </div>
+              <InfiniteScroll
+                dataLength={savedPins.length}
+                next={() => fetchSavedPins()}
+                hasMore={savedHasMore}
+                loader={loader}
+              >
+                <MasonryGrid pins={savedPins} />
+              </InfiniteScroll>
+            </div>
+          )}
+        </div>
+      )}
+
+      {followList && (
+        <FollowListModal
+          userId={profileUser.id}
+          type={followList}
+          onClose={() => setFollowList(null)}
+          onFollowChange={handleListFollowChange}
+        />
+      )}
+
+      {isReportOpen && <ReportModal userId={profileUser.id} onClose={() => setIsReportOpen(false)} />}
+
+      {isConfirmBlockOpen && (
+        <ConfirmDialog
+          title={`Block ${profileUser.first_name || profileUser.username}?`}
+          message="They won't be able to follow you, see your pins or message you, and you won't see theirs. They aren't told that you blocked them."
+          confirmLabel="Block"
+          onConfirm={handleToggleBlock}
+          onCancel={() => setIsConfirmBlockOpen(false)}
+        />
+      )}
     </div>
   );
 };
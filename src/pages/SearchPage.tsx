@@ -0,0 +1,332 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import InfiniteScroll from 'react-infinite-scroll-component';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import MasonryGrid from '../components/MasonryGrid';
+import { useAuth } from '../context/AuthContext';
+
+interface Pin {
+  id: string;
+  title: string;
+  description: string;
+  image_url: string;
+  link?: string;
+  likes_count: number;
+  saves_count: number;
+  liked_by_me?: boolean;
+  saved_by_me?: boolean;
+  users: {
+    id: string;
+    username: string;
+    first_name: string;
+    last_name: string;
+    avatar_url: string;
+  };
+}
+
+interface SearchUser {
+  id: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  avatar_url: string;
+  bio?: string;
+}
+
+interface SearchCategory {
+  category: string;
+  pins_count: number;
+  matching_count: number;
+  cover_image_url: string | null;
+}
+
+type SearchTab = 'pins' | 'people' | 'categories';
+
+const tabs: [SearchTab, string][] = [
+  ['pins', 'Pins'],
+  ['people', 'People'],
+  ['categories', 'Categories'],
+];
+
+const dateFilters: [string, string][] = [
+  ['', 'Any time'],
+  ['day', 'Past day'],
+  ['week', 'Past week'],
+  ['month', 'Past month'],
+  ['year', 'Past year'],
+];
+
+const formatCategory = (category: string) =>
+  category.charAt(0).toUpperCase() + category.slice(1);
+
+const SearchPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [pins, setPins] = useState<Pin[]>([]);
+  const [people, setPeople] = useState<SearchUser[]>([]);
+  const [categories, setCategories] = useState<SearchCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(true);
+  const [page, setPage] = useState(1);
+
+  const query = searchParams.get('q') || '';
+  const tab = (searchParams.get('type') || 'pins') as SearchTab;
+  const category = searchParams.get('category') || '';
+  const since = searchParams.get('since') || '';
+
+  // Changing any filter keeps the rest of the search intact
+  const updateParams = (updates: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next);
+  };
+
+  // Categories double as the filter chips on the pins tab
+  useEffect(() => {
+    fetchCategories();
+  }, [query]);
+
+  useEffect(() => {
+    setLoading(true);
+    setPins([]);
+    setPeople([]);
+    setPage(1);
+    if (tab === 'categories') {
+      setLoading(false);
+    } else {
+      fetchResults(1, true);
+    }
+  }, [query, tab, category, since, user?.id]);
+
+  const fetchCategories = async () => {
+    try {
+      const response = await axios.get(`/search/categories?q=${encodeURIComponent(query)}`);
+      setCategories(response.data.categories);
+    } catch (error) {
+      console.error('Error searching categories:', error);
+    }
+  };
+
+  const fetchResults = async (pageNum: number, reset: boolean = false) => {
+    try {
+      const params = new URLSearchParams({
+        q: query,
+        page: pageNum.toString(),
+        limit: '20',
+      });
+
+      if (tab === 'pins') {
+        if (category) {
+          params.append('category', category);
+        }
+        if (since) {
+          params.append('since', since);
+        }
+
+        const response = await axios.get(`/search/pins?${params.toString()}`);
+        setPins(prev => reset ? response.data.pins : [...prev, ...response.data.pins]);
+        setHasMore(response.data.hasMore);
+      } else {
+        const response = await axios.get(`/search/users?${params.toString()}`);
+        setPeople(prev => reset ? response.data.users : [...prev, ...response.data.users]);
+        setHasMore(response.data.hasMore);
+      }
+
+      setPage(pageNum);
+    } catch (error) {
+      console.error('Error searching:', error);
+      toast.error('Search failed');
+      setHasMore(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = () => {
+    if (!loading && hasMore) {
+      fetchResults(page + 1);
+    }
+  };
+
+  const handlePinUpdate = (pinId: string, updates: Partial<Pin>) => {
+    setPins(prev => prev.map(pin =>
+      pin.id === pinId ? { ...pin, ...updates } : pin
+    ));
+  };
+
+  const loader = (
+    <div className="flex justify-center py-8">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+    </div>
+  );
+
+  const emptyState = (
+    <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+      <div className="w-16 h-16 bg-gray-200 rounded-full flex items-center justify-center mb-4">
+        <span className="text-2xl">🔍</span>
+      </div>
+      <h3 className="text-lg font-medium mb-2">No results found</h3>
+      <p className="text-sm">Try searching for something else</p>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <div className="bg-gray-50 py-4">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <h1 className="text-2xl font-bold text-gray-900">
+            Search results for "{query}"
+          </h1>
+
+          {/* Tabs */}
+          <div className="flex space-x-2 mt-4">
+            {tabs.map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => updateParams({ type: value === 'pins' ? '' : value })}
+                className={`px-4 py-2 rounded-full font-medium transition-colors ${
+                  tab === value
+                    ? 'bg-black text-white'
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Filter chips */}
+          {tab === 'pins' && (
+            <div className="mt-4 space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {dateFilters.map(([value, label]) => (
+                  <button
+                    key={label}
+                    onClick={() => updateParams({ since: value })}
+                    className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                      since === value
+                        ? 'bg-red-600 text-white'
+                        : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {categories.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => updateParams({ category: '' })}
+                    className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                      !category
+                        ? 'bg-red-600 text-white'
+                        : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    All categories
+                  </button>
+                  {categories.map((result) => (
+                    <button
+                      key={result.category}
+                      onClick={() => updateParams({ category: result.category })}
+                      className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                        category === result.category
+                          ? 'bg-red-600 text-white'
+                          : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+                      }`}
+                    >
+                      {formatCategory(result.category)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        loader
+      ) : tab === 'pins' ? (
+        pins.length > 0 ? (
+          <InfiniteScroll
+            dataLength={pins.length}
+            next={loadMore}
+            hasMore={hasMore}
+            loader={loader}
+          >
+            <MasonryGrid pins={pins} onPinUpdate={handlePinUpdate} />
+          </InfiniteScroll>
+        ) : emptyState
+      ) : tab === 'people' ? (
+        people.length > 0 ? (
+          <InfiniteScroll
+            dataLength={people.length}
+            next={loadMore}
+            hasMore={hasMore}
+            loader={loader}
+          >
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6 divide-y divide-gray-100">
+              {people.map((person) => (
+                <Link
+                  key={person.id}
+                  to={`/user/${person.id}`}
+                  className="flex items-center space-x-4 py-4 hover:bg-gray-50 rounded-lg px-2 transition-colors"
+                >
+                  <img
+                    src={person.avatar_url}
+                    alt={person.username}
+                    className="w-14 h-14 rounded-full object-cover"
+                  />
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900">
+                      {person.first_name} {person.last_name}
+                    </p>
+                    <p className="text-sm text-gray-500">@{person.username}</p>
+                    {person.bio && (
+                      <p className="text-sm text-gray-600 truncate mt-1">{person.bio}</p>
+                    )}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </InfiniteScroll>
+        ) : emptyState
+      ) : categories.length > 0 ? (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {categories.map((result) => (
+            <button
+              key={result.category}
+              onClick={() => updateParams({ type: '', category: result.category })}
+              className="relative h-40 rounded-2xl overflow-hidden bg-gray-200 text-left group"
+            >
+              {result.cover_image_url && (
+                <img
+                  src={result.cover_image_url}
+                  alt={result.category}
+                  className="absolute inset-0 w-full h-full object-cover group-hover:scale-105 transition-transform"
+                />
+              )}
+              <div className="absolute inset-0 bg-black bg-opacity-40 flex flex-col justify-end p-4">
+                <p className="text-white text-lg font-bold">{formatCategory(result.category)}</p>
+                <p className="text-white text-sm opacity-90">
+                  {result.matching_count} matching of {result.pins_count} {result.pins_count === 1 ? 'pin' : 'pins'}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      ) : emptyState}
+    </div>
+  );
+};
+
+export default SearchPage;
@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ShieldCheck, ShieldOff, Copy } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  recovery_codes_remaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message
+    ? error.response.data.message
+    : fallback;
+
+const SecurityPage: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  // Shown once, right after they are generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await axios.get('/auth/2fa');
+      setStatus(response.data);
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+      toast.error('Failed to load security settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    setSubmitting(true);
+
+    try {
+      const response = await axios.post('/auth/2fa/setup');
+      setSetup(response.data);
+      setCode('');
+    } catch (error) {
+      console.error('Error starting two-factor setup:', error);
+      toast.error(errorMessage(error, 'Failed to start two-factor setup'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      const response = await axios.post('/auth/2fa/enable', { code });
+      setRecoveryCodes(response.data.recovery_codes);
+      setSetup(null);
+      setCode('');
+      toast.success(response.data.message);
+      await fetchStatus();
+    } catch (error) {
+      console.error('Error enabling two-factor:', error);
+      toast.error(errorMessage(error, 'Failed to turn on two-factor authentication'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setSubmitting(true);
+
+    try {
+      const response = await axios.post('/auth/2fa/recovery-codes', { code });
+      setRecoveryCodes(response.data.recovery_codes);
+      setCode('');
+      toast.success(response.data.message);
+      await fetchStatus();
+    } catch (error) {
+      console.error('Error regenerating recovery codes:', error);
+      toast.error(errorMessage(error, 'Failed to generate recovery codes'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setSubmitting(true);
+
+    try {
+      const response = await axios.post('/auth/2fa/disable', { code });
+      setCode('');
+      toast.success(response.data.message);
+      await fetchStatus();
+    } catch (error) {
+      console.error('Error disabling two-factor:', error);
+      toast.error(errorMessage(error, 'Failed to turn off two-factor authentication'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch (error) {
+      console.error('Error copying recovery codes:', error);
+      toast.error('Failed to copy recovery codes');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </div>
+    );
+  }
+
+  const codeInput = (
+    <input
+      id="code"
+      type="text"
+      inputMode={setup ? 'numeric' : 'text'}
+      autoComplete="one-time-code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent font-mono"
+      placeholder={setup ? '000000' : 'Code from your app or a recovery code'}
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Security</h1>
+              <p className="text-sm text-gray-600 mt-1">
+                Protect your account with a second step at login
+              </p>
+            </div>
+            <Link
+              to="/settings/sessions"
+              className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              Active sessions
+            </Link>
+          </div>
+
+          {recoveryCodes ? (
+            <>
+              <div className="p-6 space-y-4">
+                <h2 className="text-lg font-semibold text-gray-900">Save your recovery codes</h2>
+                <p className="text-sm text-gray-600">
+                  Each code signs you in once if you lose access to your authenticator app.
+                  Keep them somewhere safe; they won't be shown again.
+                </p>
+                <ul className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-sm text-gray-900">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <li key={recoveryCode}>{recoveryCode}</li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* Footer */}
+              <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
+                <button
+                  onClick={handleCopyCodes}
+                  className="flex items-center space-x-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Copy size={18} />
+                  <span>Copy</span>
+                </button>
+                <button
+                  onClick={() => setRecoveryCodes(null)}
+                  className="px-6 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors"
+                >
+                  I've saved them
+                </button>
+              </div>
+            </>
+          ) : status?.enabled ? (
+            <>
+              <div className="p-6 space-y-6">
+                <div className="flex items-start space-x-4">
+                  <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center flex-shrink-0 text-green-700">
+                    <ShieldCheck size={20} />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">Two-factor authentication is on</p>
+                    <p className="text-sm text-gray-500">
+                      {status.enabled_at && `Since ${new Date(status.enabled_at).toLocaleDateString()} · `}
+                      {status.recovery_codes_remaining} recovery {status.recovery_codes_remaining === 1 ? 'code' : 'codes'} left
+                    </p>
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                    Enter a code to make changes
+                  </label>
+                  {codeInput}
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
+                <button
+                  onClick={handleRegenerate}
+                  disabled={submitting || !code.trim()}
+                  className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  New recovery codes
+                </button>
+                <button
+                  onClick={handleDisable}
+                  disabled={submitting || !code.trim()}
+                  className="px-6 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Turn off
+                </button>
+              </div>
+            </>
+          ) : setup ? (
+            <form onSubmit={handleEnable}>
+              <div className="p-6 space-y-6">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:space-x-6 space-y-4 sm:space-y-0">
+                  <img
+                    src={setup.qr_code}
+                    alt="Two-factor QR code"
+                    className="w-48 h-48 border border-gray-200 rounded-lg mx-auto sm:mx-0"
+                  />
+                  <div className="space-y-3 text-sm text-gray-600">
+                    <p>
+                      Scan this QR code with an authenticator app such as Google Authenticator,
+                      1Password or Authy.
+                    </p>
+                    <p>Can't scan it? Enter this key instead:</p>
+                    <p className="font-mono text-gray-900 break-all bg-gray-50 rounded-lg p-2">
+                      {setup.secret}
+                    </p>
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                    Enter the 6-digit code from the app
+                  </label>
+                  {codeInput}
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setSetup(null)}
+                  className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting || !code.trim()}
+                  className="px-6 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Turn on
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <div className="p-6">
+                <div className="flex items-start space-x-4">
+                  <div className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center flex-shrink-0 text-gray-600">
+                    <ShieldOff size={20} />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">Two-factor authentication is off</p>
+                    <p className="text-sm text-gray-500">
+                      Ask for a code from your phone after your password, so a leaked password
+                      isn't enough to get into your account.
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end">
+                <button
+                  onClick={handleStartSetup}
+                  disabled={submitting}
+                  className="px-6 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Set up two-factor
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SecurityPage;
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Monitor, Smartphone, LogOut } from 'lucide-react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+import ConfirmDialog from '../components/ConfirmDialog';
+
+interface Session {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  current: boolean;
+}
+
+// Good enough to tell your own devices apart, e.g. "Chrome on macOS"
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    'Browser';
+  const os =
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    'unknown OS';
+
+  return `${browser} on ${os}`;
+};
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone/.test(userAgent);
+
+const SessionsPage: React.FC = () => {
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await axios.get('/auth/sessions');
+      setSessions(response.data.sessions);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      toast.error('Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      await axios.delete(`/auth/sessions/${session.id}`);
+      setSessions(prev => prev.filter(other => other.id !== session.id));
+      toast.success('Session signed out');
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      toast.error('Failed to sign out session');
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setIsConfirmOpen(false);
+
+    try {
+      await axios.delete('/auth/sessions');
+      await logout();
+      toast.success('Signed out everywhere');
+      navigate('/login');
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      toast.error('Failed to sign out everywhere');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h1 className="text-2xl font-bold text-gray-900">Active sessions</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Devices that are currently logged in to your account
+            </p>
+          </div>
+
+          <ul className="divide-y divide-gray-100">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center space-x-4 px-6 py-4">
+                <div className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center flex-shrink-0 text-gray-600">
+                  {isMobile(session.user_agent) ? <Smartphone size={20} /> : <Monitor size={20} />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 truncate">
+                    {describeDevice(session.user_agent)}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-700 text-xs font-medium rounded-full">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {session.ip_address && `${session.ip_address} · `}
+                    Last active {new Date(session.last_used_at).toLocaleString()}
+                  </p>
+                </div>
+                {!session.current && (
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-full hover:bg-gray-200 transition-colors flex-shrink-0"
+                  >
+                    Sign out
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* Footer */}
+          <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end">
+            <button
+              onClick={() => setIsConfirmOpen(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors"
+            >
+              <LogOut size={18} />
+              <span>Sign out everywhere</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {isConfirmOpen && (
+        <ConfirmDialog
+          title="Sign out everywhere?"
+          message="Every device, including this one, will need to log in again."
+          confirmLabel="Sign out"
+          onConfirm={handleRevokeAll}
+          onCancel={() => setIsConfirmOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SessionsPage;
@@ -3,6 +3,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { Eye, EyeOff } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import toast from 'react-hot-toast';
+import OAuthButtons from '../components/OAuthButtons';
 
 const SignupPage: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -60,6 +61,8 @@ const SignupPage: React.FC = () => {
             <p className="text-gray-600 mt-2">Find new ideas to try</p>
           </div>
 
+          <OAuthButtons />
+
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import InfiniteScroll from 'react-infinite-scroll-component';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import MasonryGrid from '../components/MasonryGrid';
+import { useAuth } from '../context/AuthContext';
+
+interface Pin {
+  id: string;
+  title: string;
+  description: string;
+  image_url: string;
+  link?: string;
+  likes_count: number;
+  saves_count: number;
+  liked_by_me?: boolean;
+  saved_by_me?: boolean;
+  users: {
+    id: string;
+    username: string;
+    first_name: string;
+    last_name: string;
+    avatar_url: string;
+  };
+}
+
+interface Tag {
+  id: string;
+  name: string;
+  pins_count: number;
+}
+
+const TagPage: React.FC = () => {
+  const { name } = useParams<{ name: string }>();
+  const { user } = useAuth();
+  const [tag, setTag] = useState<Tag | null>(null);
+  const [pins, setPins] = useState<Pin[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    setLoading(true);
+    setNotFound(false);
+    setPins([]);
+    setPage(1);
+    fetchTag();
+    fetchPins(1, true);
+  }, [name, user?.id]);
+
+  const fetchTag = async () => {
+    try {
+      const response = await axios.get(`/tags/${encodeURIComponent(name || '')}`);
+      setTag(response.data);
+    } catch (error) {
+      console.error('Error fetching tag:', error);
+      setNotFound(true);
+    }
+  };
+
+  const fetchPins = async (pageNum: number, reset: boolean = false) => {
+    try {
+      const params = new URLSearchParams({
+        page: pageNum.toString(),
+        limit: '20',
+      });
+      const response = await axios.get(`/tags/${encodeURIComponent(name || '')}/pins?${params.toString()}`);
+      const newPins = response.data.pins;
+
+      if (reset) {
+        setPins(newPins);
+      } else {
+        setPins(prev => [...prev, ...newPins]);
+      }
+
+      setHasMore(response.data.hasMore);
+      setPage(pageNum);
+    } catch (error) {
+      console.error('Error fetching pins:', error);
+      toast.error('Failed to load pins');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = () => {
+    if (!loading && hasMore) {
+      fetchPins(page + 1);
+    }
+  };
+
+  const handlePinUpdate = (pinId: string, updates: Partial<Pin>) => {
+    setPins(prev => prev.map(pin =>
+      pin.id === pinId ? { ...pin, ...updates } : pin
+    ));
+  };
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Tag not found</h2>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      {tag && (
+        <div className="text-center py-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">#{tag.name}</h1>
+          <p className="text-gray-600">
+            {tag.pins_count} {tag.pins_count === 1 ? 'pin' : 'pins'}
+          </p>
+        </div>
+      )}
+
+      {loading && pins.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+        </div>
+      ) : (
+        <InfiniteScroll
+          dataLength={pins.length}
+          next={loadMore}
+          hasMore={hasMore}
+          loader={
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          }
+        >
+          <MasonryGrid pins={pins} onPinUpdate={handlePinUpdate} />
+        </InfiniteScroll>
+      )}
+    </div>
+  );
+};
+
+export default TagPage;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { Link, Navigate, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+
+// Only follow redirects that stay inside the app
+const safeRedirect = (redirect: string | null) =>
+  redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/';
+
+// Second login step. LoginPage passes the challenge in router state; provider sign-ins
+// arrive with it in the query string.
+const TwoFactorChallengePage: React.FC = () => {
+  const { completeTwoFactor } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [challengeToken] = useState<string | null>(
+    location.state?.challengeToken || searchParams.get('challenge')
+  );
+  const [from] = useState(safeRedirect(location.state?.from || searchParams.get('redirect')));
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  // Keep the challenge out of the address bar and browser history
+  useEffect(() => {
+    if (searchParams.has('challenge')) {
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
+
+  if (!challengeToken) {
+    return <Navigate to="/login" replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await completeTwoFactor(challengeToken, code.trim());
+      toast.success('Welcome back!');
+      navigate(from, { replace: true });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Verification failed');
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-red-50 to-pink-50 flex items-center justify-center px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="w-16 h-16 bg-red-600 rounded-full flex items-center justify-center mx-auto mb-4">
+              <span className="text-white font-bold text-2xl">P</span>
+            </div>
+            <h2 className="text-3xl font-bold text-gray-900">Two-factor authentication</h2>
+            <p className="text-gray-600 mt-2">
+              {useRecoveryCode
+                ? 'Enter one of the recovery codes you saved when you turned on two-factor'
+                : 'Enter the 6-digit code from your authenticator app'}
+            </p>
+          </div>
+
+          {/* Form */}
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+              </label>
+              {useRecoveryCode ? (
+                <input
+                  id="code"
+                  type="text"
+                  required
+                  autoFocus
+                  autoComplete="off"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors font-mono"
+                  placeholder="xxxxx-xxxxx"
+                />
+              ) : (
+                <input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  required
+                  autoFocus
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors text-center text-2xl tracking-widest font-mono"
+                  placeholder="000000"
+                />
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading || !code.trim()}
+              className="w-full bg-red-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-red-700 focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? (
+                <div className="flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                  Verifying...
+                </div>
+              ) : (
+                'Verify'
+              )}
+            </button>
+          </form>
+
+          <div className="mt-6 text-center">
+            <button
+              type="button"
+              onClick={toggleRecoveryCode}
+              className="text-sm text-red-600 hover:text-red-700 font-medium transition-colors"
+            >
+              {useRecoveryCode ? 'Use your authenticator app instead' : 'Lost your device? Use a recovery code'}
+            </button>
+          </div>
+
+          {/* Footer */}
+          <div className="mt-8 text-center">
+            <Link to="/login" className="text-gray-600 hover:text-gray-900 font-medium transition-colors">
+              Back to login
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorChallengePage;
@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, XCircle } from 'lucide-react';
+import axios from 'axios';
+import { useAuth } from '../context/AuthContext';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { user, refreshUser } = useAuth();
+  const [status, setStatus] = useState<VerifyStatus>('verifying');
+  const [message, setMessage] = useState('');
+  // Tokens are single use, so a second run (e.g. StrictMode) would report a failure
+  const submittedRef = useRef(false);
+
+  useEffect(() => {
+    if (submittedRef.current) return;
+    submittedRef.current = true;
+    verifyEmail();
+  }, []);
+
+  const verifyEmail = async () => {
+    if (!token) {
+      setStatus('failed');
+      setMessage('This verification link is incomplete');
+      return;
+    }
+
+    try {
+      const response = await axios.post('/auth/verify-email', { token });
+      setStatus('verified');
+      setMessage(response.data.message);
+
+      if (user) {
+        await refreshUser();
+      }
+    } catch (error) {
+      console.error('Verify email error:', error);
+      setStatus('failed');
+      setMessage(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to verify email'
+      );
+    }
+  };
+
+  if (status === 'verifying') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-red-50 to-pink-50 flex items-center justify-center px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-xl p-8 text-center">
+          {status === 'verified' ? (
+            <CheckCircle size={64} className="text-green-600 mx-auto mb-4" />
+          ) : (
+            <XCircle size={64} className="text-red-600 mx-auto mb-4" />
+          )}
+          <h2 className="text-3xl font-bold text-gray-900">
+            {status === 'verified' ? 'Email verified' : 'Verification failed'}
+          </h2>
+          <p className="text-gray-600 mt-2">{message}</p>
+          {status === 'failed' && user && (
+            <p className="text-gray-600 mt-2">You can send a new link from the banner at the top of the page.</p>
+          )}
+
+          <div className="mt-8">
+            <Link to="/" className="text-red-600 hover:text-red-700 font-medium transition-colors">
+              Go to home
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
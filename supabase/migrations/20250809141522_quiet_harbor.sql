@@ -0,0 +1,64 @@
+/*
+  # Boards
+
+  1. New Tables
+    - `boards`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `name` (text)
+      - `description` (text)
+      - `position` (integer, owner-defined display order)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - `pin_saves`
+      - `board_id` (uuid, foreign key, nullable) - the board a save is filed under.
+        Saves without a board are shown as unorganized ideas on the owner's profile.
+        Deleting a board keeps its saves and moves them back to unorganized.
+
+  3. Security
+    - Enable RLS on `boards`
+    - Public read access, owners manage their own boards
+*/
+
+-- Create boards table
+CREATE TABLE IF NOT EXISTS boards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text DEFAULT '',
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+-- File saves under boards
+ALTER TABLE pin_saves
+  ADD COLUMN IF NOT EXISTS board_id uuid REFERENCES boards(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE boards ENABLE ROW LEVEL SECURITY;
+
+-- Boards policies
+CREATE POLICY "Boards are viewable by everyone"
+  ON boards
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage their boards"
+  ON boards
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_boards_user_position ON boards(user_id, position);
+CREATE INDEX IF NOT EXISTS idx_pin_saves_board_id ON pin_saves(board_id);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_boards_updated_at
+  BEFORE UPDATE ON boards
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
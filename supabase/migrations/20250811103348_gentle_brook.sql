@@ -0,0 +1,57 @@
+/*
+  # Pin comments
+
+  1. New Tables
+    - `pin_comments`
+      - `id` (uuid, primary key)
+      - `pin_id` (uuid, foreign key)
+      - `user_id` (uuid, foreign key)
+      - `parent_id` (uuid, foreign key, nullable) - the comment being replied to
+      - `root_id` (uuid, foreign key, nullable) - the top-level comment of the thread,
+        so a page of threads can be loaded with all of its replies in one query
+      - `body` (text)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `pin_comments`
+    - Public read access, authenticated users manage their own comments
+*/
+
+-- Create pin_comments table
+CREATE TABLE IF NOT EXISTS pin_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pin_id uuid REFERENCES pins(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES pin_comments(id) ON DELETE CASCADE,
+  root_id uuid REFERENCES pin_comments(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (char_length(body) BETWEEN 1 AND 1000),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE pin_comments ENABLE ROW LEVEL SECURITY;
+
+-- Pin comments policies
+CREATE POLICY "Pin comments are viewable by everyone"
+  ON pin_comments
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage their comments"
+  ON pin_comments
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_pin_comments_pin_created ON pin_comments(pin_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pin_comments_root_id ON pin_comments(root_id);
+CREATE INDEX IF NOT EXISTS idx_pin_comments_parent_id ON pin_comments(parent_id);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_pin_comments_updated_at
+  BEFORE UPDATE ON pin_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
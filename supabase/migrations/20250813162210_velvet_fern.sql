@@ -0,0 +1,74 @@
+/*
+  # Related pins
+
+  1. New Functions
+    - `related_pins(target_pin_id, result_limit, result_offset)`
+      Ranks other pins against a pin by:
+      - sharing its category (+1)
+      - overlapping title/description terms (full-text rank, weighted x2)
+      - co-saves: users who saved both pins (log-scaled so popular pins don't swamp the rest)
+      Pins with no signal at all are left out.
+
+  2. Indexes
+    - Composite index on `pin_saves(user_id, pin_id)` for the co-save join
+*/
+
+CREATE OR REPLACE FUNCTION related_pins(
+  target_pin_id uuid,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (pin_id uuid, score double precision)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH target AS (
+    SELECT
+      id,
+      category,
+      to_tsvector('english', coalesce(title, '') || ' ' || coalesce(description, '')) AS document
+    FROM pins
+    WHERE id = target_pin_id
+  ),
+  target_query AS (
+    -- OR together every lexeme of the target pin
+    SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery AS query
+    FROM target, unnest(tsvector_to_array(target.document)) AS lexeme
+  ),
+  co_saves AS (
+    SELECT other.pin_id, count(*) AS savers
+    FROM pin_saves mine
+    JOIN pin_saves other
+      ON other.user_id = mine.user_id
+     AND other.pin_id <> mine.pin_id
+    WHERE mine.pin_id = target_pin_id
+    GROUP BY other.pin_id
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      p.created_at,
+      (CASE WHEN p.category = target.category THEN 1.0 ELSE 0.0 END)
+        + coalesce(
+            2 * ts_rank(
+              to_tsvector('english', coalesce(p.title, '') || ' ' || coalesce(p.description, '')),
+              target_query.query
+            ),
+            0
+          )
+        + ln(1 + coalesce(co_saves.savers, 0)) AS score
+    FROM pins p
+    CROSS JOIN target
+    CROSS JOIN target_query
+    LEFT JOIN co_saves ON co_saves.pin_id = p.id
+    WHERE p.id <> target_pin_id
+  )
+  SELECT scored.id, scored.score
+  FROM scored
+  WHERE scored.score > 0
+  ORDER BY scored.score DESC, scored.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_pin_saves_user_pin ON pin_saves(user_id, pin_id);
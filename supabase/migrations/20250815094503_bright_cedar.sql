@@ -0,0 +1,11 @@
+/*
+  # Pin image asset tracking
+
+  1. Changes
+    - `pins`
+      - `image_public_id` (text) - Cloudinary public id of the pin image, so a replaced
+        image can be removed from Cloudinary. Empty for pins created before this column.
+*/
+
+ALTER TABLE pins
+  ADD COLUMN IF NOT EXISTS image_public_id text DEFAULT '';
@@ -0,0 +1,86 @@
+/*
+  # Soft-deleted pins
+
+  1. Changes
+    - `pins`
+      - `deleted_at` (timestamp, nullable) - set when the owner deletes a pin. The pin is
+        hidden everywhere but can still be restored until the server purges it (row and
+        Cloudinary image) once the undo window has passed.
+
+  2. Security
+    - Deleted pins are no longer publicly viewable
+
+  3. Functions
+    - `related_pins` skips deleted pins
+*/
+
+ALTER TABLE pins
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_pins_deleted_at ON pins(deleted_at) WHERE deleted_at IS NOT NULL;
+
+DROP POLICY IF EXISTS "Pins are viewable by everyone" ON pins;
+
+CREATE POLICY "Pins are viewable by everyone"
+  ON pins
+  FOR SELECT
+  USING (deleted_at IS NULL);
+
+CREATE OR REPLACE FUNCTION related_pins(
+  target_pin_id uuid,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (pin_id uuid, score double precision)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH target AS (
+    SELECT
+      id,
+      category,
+      to_tsvector('english', coalesce(title, '') || ' ' || coalesce(description, '')) AS document
+    FROM pins
+    WHERE id = target_pin_id
+  ),
+  target_query AS (
+    -- OR together every lexeme of the target pin
+    SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery AS query
+    FROM target, unnest(tsvector_to_array(target.document)) AS lexeme
+  ),
+  co_saves AS (
+    SELECT other.pin_id, count(*) AS savers
+    FROM pin_saves mine
+    JOIN pin_saves other
+      ON other.user_id = mine.user_id
+     AND other.pin_id <> mine.pin_id
+    WHERE mine.pin_id = target_pin_id
+    GROUP BY other.pin_id
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      p.created_at,
+      (CASE WHEN p.category = target.category THEN 1.0 ELSE 0.0 END)
+        + coalesce(
+            2 * ts_rank(
+              to_tsvector('english', coalesce(p.title, '') || ' ' || coalesce(p.description, '')),
+              target_query.query
+            ),
+            0
+          )
+        + ln(1 + coalesce(co_saves.savers, 0)) AS score
+    FROM pins p
+    CROSS JOIN target
+    CROSS JOIN target_query
+    LEFT JOIN co_saves ON co_saves.pin_id = p.id
+    WHERE p.id <> target_pin_id
+      AND p.deleted_at IS NULL
+  )
+  SELECT scored.id, scored.score
+  FROM scored
+  WHERE scored.score > 0
+  ORDER BY scored.score DESC, scored.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
@@ -0,0 +1,127 @@
+/*
+  # Full-text search
+
+  1. Indexes
+    - GIN expression index on `pin_search_document(...)` for pins
+    - Prefix index on lower(username)
+
+  2. Functions
+    - `pin_search_document` builds the weighted document: title (A), description (B),
+      category (C)
+    - `search_pins` ranks pins against a web-style query (quotes, `or`, `-word`),
+      with optional category and "created after" filters
+    - `search_users` matches people by username or name, exact and prefix matches first
+    - `search_categories` lists categories whose name matches or that contain matching pins
+
+  3. Notes
+    - Queries go through `websearch_to_tsquery`, which never raises on malformed input,
+      and LIKE patterns are escaped, so user input is never interpreted as syntax
+*/
+
+CREATE OR REPLACE FUNCTION pin_search_document(title text, description text, category text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B')
+    || setweight(to_tsvector('english'::regconfig, coalesce(category, '')), 'C');
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_pins_search_document
+  ON pins USING gin(pin_search_document(title, description, category));
+CREATE INDEX IF NOT EXISTS idx_users_username_lower ON users(lower(username) text_pattern_ops);
+
+-- Escape LIKE wildcards so they match literally
+CREATE OR REPLACE FUNCTION escape_like(value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT replace(replace(replace(value, '\', '\\'), '%', '\%'), '_', '\_');
+$$;
+
+CREATE OR REPLACE FUNCTION search_pins(
+  search_query text,
+  category_filter text DEFAULT NULL,
+  created_after timestamptz DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (pin_id uuid, rank real)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.id, ts_rank_cd(pin_search_document(p.title, p.description, p.category), query) AS rank
+  FROM pins p, websearch_to_tsquery('english', search_query) AS query
+  WHERE pin_search_document(p.title, p.description, p.category) @@ query
+    AND p.deleted_at IS NULL
+    AND (category_filter IS NULL OR p.category = category_filter)
+    AND (created_after IS NULL OR p.created_at >= created_after)
+  ORDER BY rank DESC, p.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+CREATE OR REPLACE FUNCTION search_users(
+  search_query text,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (user_id uuid, rank integer)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH term AS (
+    SELECT lower(trim(search_query)) AS value, escape_like(lower(trim(search_query))) AS pattern
+  )
+  SELECT
+    u.id,
+    CASE
+      WHEN lower(u.username) = term.value THEN 3
+      WHEN lower(u.username) LIKE term.pattern || '%' THEN 2
+      ELSE 1
+    END AS rank
+  FROM users u, term
+  WHERE term.value <> ''
+    AND (
+      lower(u.username) LIKE '%' || term.pattern || '%'
+      OR lower(u.first_name || ' ' || u.last_name) LIKE '%' || term.pattern || '%'
+    )
+  ORDER BY rank DESC, u.username
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+CREATE OR REPLACE FUNCTION search_categories(search_query text)
+RETURNS TABLE (category text, pins_count bigint, matching_count bigint, cover_image_url text)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS value
+  ),
+  counted AS (
+    SELECT
+      p.category,
+      count(*) AS pins_count,
+      count(*) FILTER (
+        WHERE pin_search_document(p.title, p.description, p.category) @@ query.value
+      ) AS matching_count,
+      (array_agg(p.image_url ORDER BY p.created_at DESC))[1] AS cover_image_url
+    FROM pins p, query
+    WHERE p.deleted_at IS NULL
+    GROUP BY p.category
+  )
+  SELECT counted.category, counted.pins_count, counted.matching_count, counted.cover_image_url
+  FROM counted
+  WHERE trim(search_query) <> ''
+    AND (
+      counted.category ILIKE '%' || escape_like(trim(search_query)) || '%'
+      OR counted.matching_count > 0
+    )
+  ORDER BY
+    (counted.category ILIKE escape_like(trim(search_query)) || '%') DESC,
+    counted.matching_count DESC,
+    counted.category;
+$$;
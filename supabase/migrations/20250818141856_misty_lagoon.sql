@@ -0,0 +1,110 @@
+/*
+  # Search suggestions and recent searches
+
+  1. New Tables
+    - `recent_searches`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `query` (text) - what the user searched for, unique per user; searching again
+        moves it back to the top
+      - `searched_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `recent_searches`
+    - Only the API (service role) reads and writes it
+
+  3. Functions
+    - `search_suggestions` returns typeahead matches for a partially typed query:
+      pins by title (word prefixes), categories and people by username or name
+*/
+
+-- Create recent searches table
+CREATE TABLE IF NOT EXISTS recent_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  query text NOT NULL,
+  searched_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, query)
+);
+
+-- Enable Row Level Security. There are no policies: only the service role, which
+-- bypasses RLS, can read or write these rows.
+ALTER TABLE recent_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_recent_searches_user_searched_at
+  ON recent_searches(user_id, searched_at DESC);
+
+CREATE OR REPLACE FUNCTION search_suggestions(
+  search_query text,
+  result_limit integer DEFAULT 5
+)
+RETURNS TABLE (kind text, target_id uuid, label text, sublabel text, image_url text)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH words AS (
+    -- Only letters and digits survive, so the prefix query below is always well formed
+    SELECT word
+    FROM regexp_split_to_table(
+      lower(regexp_replace(search_query, '[^[:alnum:][:space:]]', ' ', 'g')),
+      '\s+'
+    ) AS word
+    WHERE word <> ''
+  ),
+  term AS (
+    SELECT
+      string_agg(word, ' ') AS value,
+      to_tsquery('simple', string_agg(word || ':*', ' & ')) AS prefix_query
+    FROM words
+  ),
+  pin_matches AS (
+    SELECT
+      'pin'::text AS kind,
+      p.id AS target_id,
+      p.title AS label,
+      NULL::text AS sublabel,
+      p.image_url,
+      ts_rank(to_tsvector('simple', coalesce(p.title, '')), term.prefix_query) AS rank
+    FROM pins p, term
+    WHERE term.value IS NOT NULL
+      AND p.deleted_at IS NULL
+      AND to_tsvector('simple', coalesce(p.title, '')) @@ term.prefix_query
+    ORDER BY rank DESC, p.created_at DESC
+    LIMIT result_limit
+  ),
+  category_matches AS (
+    SELECT DISTINCT
+      'category'::text AS kind,
+      NULL::uuid AS target_id,
+      p.category AS label,
+      NULL::text AS sublabel,
+      NULL::text AS image_url
+    FROM pins p, term
+    WHERE term.value IS NOT NULL
+      AND p.deleted_at IS NULL
+      AND lower(p.category) LIKE escape_like(term.value) || '%'
+    LIMIT 3
+  ),
+  user_matches AS (
+    SELECT
+      'user'::text AS kind,
+      u.id AS target_id,
+      u.first_name || ' ' || u.last_name AS label,
+      u.username AS sublabel,
+      u.avatar_url AS image_url
+    FROM users u, term
+    WHERE term.value IS NOT NULL
+      AND (
+        lower(u.username) LIKE escape_like(term.value) || '%'
+        OR lower(u.first_name || ' ' || u.last_name) LIKE escape_like(term.value) || '%'
+        OR lower(u.last_name) LIKE escape_like(term.value) || '%'
+      )
+    ORDER BY lower(u.username) = term.value DESC, u.username
+    LIMIT 3
+  )
+  SELECT kind, target_id, label, sublabel, image_url FROM pin_matches
+  UNION ALL
+  SELECT kind, target_id, label, sublabel, image_url FROM category_matches
+  UNION ALL
+  SELECT kind, target_id, label, sublabel, image_url FROM user_matches;
+$$;
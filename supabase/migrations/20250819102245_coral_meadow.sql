@@ -0,0 +1,61 @@
+/*
+  # Categories
+
+  1. New Tables
+    - `categories`
+      - `slug` (text, primary key) - the value stored in `pins.category`
+      - `name` (text) - display name
+      - `position` (integer, display order)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `pins.category` now references `categories(slug)`. The original ten categories are
+      seeded, along with any other category already used by a pin.
+
+  3. Security
+    - Enable RLS on `categories`
+    - Public read access
+*/
+
+-- Create categories table
+CREATE TABLE IF NOT EXISTS categories (
+  slug text PRIMARY KEY,
+  name text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO categories (slug, name, position) VALUES
+  ('general', 'General', 0),
+  ('art', 'Art', 1),
+  ('food', 'Food', 2),
+  ('travel', 'Travel', 3),
+  ('fashion', 'Fashion', 4),
+  ('home', 'Home', 5),
+  ('nature', 'Nature', 6),
+  ('photography', 'Photography', 7),
+  ('design', 'Design', 8),
+  ('technology', 'Technology', 9)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Keep categories that pins already use
+INSERT INTO categories (slug, name, position)
+SELECT DISTINCT category, initcap(category), 100
+FROM pins
+WHERE category IS NOT NULL
+ON CONFLICT (slug) DO NOTHING;
+
+ALTER TABLE pins
+  ADD CONSTRAINT pins_category_fkey
+  FOREIGN KEY (category) REFERENCES categories(slug) ON UPDATE CASCADE;
+
+-- Enable Row Level Security
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+-- Categories policies
+CREATE POLICY "Categories are viewable by everyone"
+  ON categories
+  FOR SELECT
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_pins_category_created_at ON pins(category, created_at DESC);
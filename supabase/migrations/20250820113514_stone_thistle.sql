@@ -0,0 +1,51 @@
+/*
+  # Tags
+
+  1. New Tables
+    - `tags`
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - lowercase letters, digits and underscores, without the `#`
+      - `created_at` (timestamp)
+    - `pin_tags`
+      - `pin_id` (uuid, foreign key)
+      - `tag_id` (uuid, foreign key)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Public read access
+*/
+
+-- Create tags table
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL CHECK (name ~ '^[a-z0-9_]{1,30}$'),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create pin tags table
+CREATE TABLE IF NOT EXISTS pin_tags (
+  pin_id uuid REFERENCES pins(id) ON DELETE CASCADE,
+  tag_id uuid REFERENCES tags(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (pin_id, tag_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pin_tags ENABLE ROW LEVEL SECURITY;
+
+-- Tags policies
+CREATE POLICY "Tags are viewable by everyone"
+  ON tags
+  FOR SELECT
+  USING (true);
+
+-- Pin tags policies
+CREATE POLICY "Pin tags are viewable by everyone"
+  ON pin_tags
+  FOR SELECT
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_tags_name_pattern ON tags(name text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_pin_tags_tag_id ON pin_tags(tag_id);
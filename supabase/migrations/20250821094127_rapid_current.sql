@@ -0,0 +1,69 @@
+/*
+  # Pin engagement counters
+
+  1. Changes
+    - `pins`
+      - `likes_count` (integer) - number of rows in `pin_likes` for the pin
+      - `saves_count` (integer) - number of rows in `pin_saves` for the pin
+      Both are backfilled here and kept in step by triggers, so feeds no longer load
+      every like and save row just to count them.
+    - `update_pins_updated_at` only fires for edits to the pin's own content, so counter
+      updates don't bump `updated_at`
+
+  2. Indexes
+    - Keyset pagination over (created_at, id) for the global, category and profile feeds
+*/
+
+ALTER TABLE pins
+  ADD COLUMN IF NOT EXISTS likes_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS saves_count integer NOT NULL DEFAULT 0;
+
+UPDATE pins SET
+  likes_count = (SELECT count(*) FROM pin_likes WHERE pin_likes.pin_id = pins.id),
+  saves_count = (SELECT count(*) FROM pin_saves WHERE pin_saves.pin_id = pins.id);
+
+CREATE OR REPLACE FUNCTION update_pin_likes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE pins SET likes_count = likes_count + 1 WHERE id = NEW.pin_id;
+  ELSE
+    UPDATE pins SET likes_count = greatest(likes_count - 1, 0) WHERE id = OLD.pin_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION update_pin_saves_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE pins SET saves_count = saves_count + 1 WHERE id = NEW.pin_id;
+  ELSE
+    UPDATE pins SET saves_count = greatest(saves_count - 1, 0) WHERE id = OLD.pin_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_pin_likes_count
+  AFTER INSERT OR DELETE ON pin_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_pin_likes_count();
+
+CREATE TRIGGER update_pin_saves_count
+  AFTER INSERT OR DELETE ON pin_saves
+  FOR EACH ROW
+  EXECUTE FUNCTION update_pin_saves_count();
+
+DROP TRIGGER IF EXISTS update_pins_updated_at ON pins;
+
+CREATE TRIGGER update_pins_updated_at
+  BEFORE UPDATE OF title, description, link, category, image_url ON pins
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_pins_created_at_id
+  ON pins(created_at DESC, id DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_pins_user_created_at_id
+  ON pins(user_id, created_at DESC, id DESC) WHERE deleted_at IS NULL;
@@ -0,0 +1,112 @@
+/*
+  # Notifications
+
+  1. New Tables
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `recipient_id` (uuid, foreign key) - the user being notified
+      - `actor_id` (uuid, foreign key) - the user whose action caused it
+      - `type` (text) - one of `like`, `save`, `follow`, `comment`, `reply`
+      - `pin_id` (uuid, foreign key, nullable) - the pin involved, if any
+      - `comment_id` (uuid, foreign key, nullable) - the comment involved, if any
+      - `read_at` (timestamp, nullable) - set once the recipient has seen it
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `notifications`
+    - Only the API (service role) reads and writes it
+
+  3. Functions
+    - `notification_groups` pages through a user's notifications one group at a time
+      (all events about the same pin, or all new followers), newest group first, so a
+      group never shows up again on a later page
+*/
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  actor_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL CHECK (type IN ('like', 'save', 'follow', 'comment', 'reply')),
+  pin_id uuid REFERENCES pins(id) ON DELETE CASCADE,
+  comment_id uuid REFERENCES pin_comments(id) ON DELETE CASCADE,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security. There are no policies: only the service role, which
+-- bypasses RLS, can read or write these rows.
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_created_at
+  ON notifications(recipient_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread
+  ON notifications(recipient_id) WHERE read_at IS NULL;
+
+CREATE OR REPLACE FUNCTION notification_groups(
+  recipient uuid,
+  before_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  result_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  group_key text,
+  type text,
+  pin_id uuid,
+  latest_at timestamptz,
+  latest_id uuid,
+  notification_ids uuid[],
+  actor_ids uuid[],
+  actors_count integer,
+  unread boolean
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH keyed AS (
+    SELECT
+      n.*,
+      CASE WHEN n.type = 'follow' THEN 'follow' ELSE n.type || ':' || n.pin_id END AS group_key
+    FROM notifications n
+    LEFT JOIN pins p ON p.id = n.pin_id
+    WHERE n.recipient_id = recipient
+      AND p.deleted_at IS NULL
+  ),
+  actors AS (
+    -- Most recent actors first, each counted once
+    SELECT group_key, array_agg(actor_id ORDER BY acted_at DESC) AS actor_ids, count(*)::integer AS actors_count
+    FROM (
+      SELECT group_key, actor_id, max(created_at) AS acted_at
+      FROM keyed
+      GROUP BY group_key, actor_id
+    ) AS actor_times
+    GROUP BY group_key
+  ),
+  groups AS (
+    SELECT
+      group_key,
+      min(type) AS type,
+      (array_agg(pin_id))[1] AS pin_id,
+      max(created_at) AS latest_at,
+      (array_agg(id ORDER BY created_at DESC, id DESC))[1] AS latest_id,
+      array_agg(id ORDER BY created_at DESC, id DESC) AS notification_ids,
+      bool_or(read_at IS NULL) AS unread
+    FROM keyed
+    GROUP BY group_key
+  )
+  SELECT
+    g.group_key,
+    g.type,
+    g.pin_id,
+    g.latest_at,
+    g.latest_id,
+    g.notification_ids,
+    a.actor_ids,
+    a.actors_count,
+    g.unread
+  FROM groups g
+  JOIN actors a USING (group_key)
+  WHERE before_at IS NULL OR (g.latest_at, g.latest_id) < (before_at, before_id)
+  ORDER BY g.latest_at DESC, g.latest_id DESC
+  LIMIT result_limit;
+$$;
@@ -0,0 +1,97 @@
+/*
+  # Direct messages
+
+  1. New Tables
+    - `conversations`
+      - `id` (uuid, primary key)
+      - `direct_key` (text, unique) - both participant ids, sorted and joined with `:`, so
+        two people always share a single conversation
+      - `last_message_id` (uuid, foreign key, nullable) - newest message, for the inbox preview
+      - `last_message_at` (timestamp, nullable) - inbox ordering; null until the first message
+      - `created_at` (timestamp)
+    - `conversation_participants`
+      - `conversation_id` (uuid, foreign key)
+      - `user_id` (uuid, foreign key)
+      - `unread_count` (integer) - messages from others since the participant last read
+      - `last_read_at` (timestamp, nullable)
+    - `messages`
+      - `id` (uuid, primary key)
+      - `conversation_id` (uuid, foreign key)
+      - `sender_id` (uuid, foreign key)
+      - `body` (text) - may be empty when a pin is attached
+      - `pin_id` (uuid, foreign key, nullable) - pin sent as a preview card
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on all three tables
+    - Only the API (service role) reads and writes them
+
+  3. Functions
+    - `handle_new_message` moves the conversation's inbox preview and bumps every other
+      participant's unread count
+*/
+
+-- Create conversations table
+CREATE TABLE IF NOT EXISTS conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  direct_key text UNIQUE NOT NULL,
+  last_message_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create conversation participants table
+CREATE TABLE IF NOT EXISTS conversation_participants (
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  unread_count integer NOT NULL DEFAULT 0,
+  last_read_at timestamptz,
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+-- Create messages table
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  sender_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  body text NOT NULL DEFAULT '',
+  pin_id uuid REFERENCES pins(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (body <> '' OR pin_id IS NOT NULL)
+);
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS last_message_id uuid
+  CONSTRAINT conversations_last_message_id_fkey REFERENCES messages(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security. There are no policies: only the service role, which
+-- bypasses RLS, can read or write these rows.
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION handle_new_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE conversations
+  SET last_message_id = NEW.id, last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+
+  UPDATE conversation_participants
+  SET unread_count = unread_count + 1
+  WHERE conversation_id = NEW.conversation_id AND user_id <> NEW.sender_id;
+
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER handle_new_message
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_message();
+
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user_id
+  ON conversation_participants(user_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_last_message_at
+  ON conversations(last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at
+  ON messages(conversation_id, created_at DESC, id DESC);
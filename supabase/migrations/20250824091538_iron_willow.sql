@@ -0,0 +1,42 @@
+/*
+  # Sessions
+
+  1. New Tables
+    - `sessions`
+      - `id` (uuid, primary key) - carried in each access token as `sessionId`
+      - `user_id` (uuid, foreign key)
+      - `refresh_token_hash` (text, unique) - SHA-256 of the current refresh token
+      - `previous_token_hash` (text, nullable) - the token it replaced, so a replayed
+        (stolen) refresh token can be recognised and the session revoked
+      - `user_agent` (text, nullable)
+      - `ip_address` (text, nullable)
+      - `created_at` (timestamp)
+      - `last_used_at` (timestamp) - last refresh
+      - `expires_at` (timestamp) - moved forward on every refresh
+      - `revoked_at` (timestamp, nullable) - set by logout or "sign out everywhere"
+
+  2. Security
+    - Enable RLS on `sessions`
+    - Only the API (service role) reads and writes sessions
+*/
+
+-- Create sessions table
+CREATE TABLE IF NOT EXISTS sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  refresh_token_hash text UNIQUE NOT NULL,
+  previous_token_hash text,
+  user_agent text,
+  ip_address text,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz
+);
+
+-- Enable Row Level Security. There are no policies: only the service role, which
+-- bypasses RLS, can read or write these rows.
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_token_hash ON sessions(previous_token_hash);
@@ -0,0 +1,42 @@
+/*
+  # Password reset and email verification
+
+  1. Changes
+    - `users`
+      - `email_verified_at` (timestamp, nullable) - set once the user follows the link
+        sent to their address
+
+  2. New Tables
+    - `auth_tokens`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `purpose` (text) - `password_reset` or `email_verification`
+      - `token_hash` (text, unique) - SHA-256 of the emailed token; the token itself is
+        never stored
+      - `expires_at` (timestamp)
+      - `used_at` (timestamp, nullable) - tokens work once
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `auth_tokens`
+    - Only the API (service role) reads and writes tokens
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at timestamptz;
+
+-- Create auth tokens table
+CREATE TABLE IF NOT EXISTS auth_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  purpose text NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+  token_hash text UNIQUE NOT NULL,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security. There are no policies: only the service role, which
+-- bypasses RLS, can read or write these rows.
+ALTER TABLE auth_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_purpose ON auth_tokens(user_id, purpose) WHERE used_at IS NULL;
@@ -0,0 +1,40 @@
+/*
+  # OAuth identities
+
+  1. New Tables
+    - `user_identities`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `provider` (text) - e.g. `google`, `github`, `oidc`
+      - `provider_user_id` (text) - the provider's stable id for the account (`sub`)
+      - `email` (text, nullable) - the address the provider reported when linked
+      - `created_at` (timestamp)
+      - unique on (`provider`, `provider_user_id`)
+
+  2. Changes
+    - `users.password_hash` is nullable: accounts created through a provider have no
+      password until they set one with a reset link
+
+  3. Security
+    - Enable RLS on `user_identities`
+    - Only the API (service role) reads and writes identities
+*/
+
+-- Create user identities table
+CREATE TABLE IF NOT EXISTS user_identities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  provider text NOT NULL,
+  provider_user_id text NOT NULL,
+  email text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(provider, provider_user_id)
+);
+
+ALTER TABLE users ALTER COLUMN password_hash DROP NOT NULL;
+
+-- Enable Row Level Security. There are no policies: only the service role, which
+-- bypasses RLS, can read or write these rows.
+ALTER TABLE user_identities ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_user_id ON user_identities(user_id);
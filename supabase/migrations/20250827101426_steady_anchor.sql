@@ -0,0 +1,99 @@
+/*
+  # Login throttling and two-factor authentication
+
+  1. Changes
+    - `users`
+      - `failed_login_count` (integer) - consecutive failed password or two-factor attempts
+      - `locked_until` (timestamp, nullable) - sign-in is refused until then; each failure
+        past the threshold doubles the lockout
+
+  2. New Tables
+    - `login_attempts`
+      - `id` (uuid, primary key)
+      - `ip_address` (text)
+      - `email` (text, nullable) - as typed, whether or not an account exists
+      - `succeeded` (boolean)
+      - `created_at` (timestamp)
+      Failed attempts per IP drive the per-IP throttle; rows older than a day are purged
+    - `user_two_factor`
+      - `user_id` (uuid, primary key, foreign key)
+      - `secret` (text) - base32 TOTP secret
+      - `enabled_at` (timestamp, nullable) - null while enrolment is unconfirmed
+      - `last_used_step` (bigint, nullable) - newest accepted time step, so a code can't
+        be replayed
+      - `created_at` (timestamp)
+    - `user_recovery_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `code_hash` (text) - SHA-256 of the one-time code
+      - `used_at` (timestamp, nullable)
+
+  3. Security
+    - Enable RLS on the new tables
+    - Only the API (service role) reads and writes them
+
+  4. Functions
+    - `register_failed_login` counts a failure and extends the lockout in one statement,
+      so parallel guesses can't slip past the threshold
+*/
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS failed_login_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS locked_until timestamptz;
+
+-- Create login attempts table
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ip_address text NOT NULL,
+  email text,
+  succeeded boolean NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create user two factor table
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret text NOT NULL,
+  enabled_at timestamptz,
+  last_used_step bigint,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create user recovery codes table
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  code_hash text NOT NULL,
+  used_at timestamptz
+);
+
+-- Enable Row Level Security. There are no policies: only the service role, which
+-- bypasses RLS, can read or write these rows.
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_two_factor ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION register_failed_login(
+  target_user_id uuid,
+  lockout_threshold integer,
+  base_lockout interval,
+  max_lockout interval
+)
+RETURNS timestamptz AS $$
+  UPDATE users
+  SET
+    failed_login_count = failed_login_count + 1,
+    locked_until = CASE
+      WHEN failed_login_count + 1 >= lockout_threshold
+        THEN now() + least(base_lockout * power(2, failed_login_count + 1 - lockout_threshold), max_lockout)
+      ELSE locked_until
+    END
+  WHERE id = target_user_id
+  RETURNING locked_until;
+$$ LANGUAGE sql;
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip_created_at
+  ON login_attempts(ip_address, created_at DESC) WHERE NOT succeeded;
+CREATE INDEX IF NOT EXISTS idx_login_attempts_created_at ON login_attempts(created_at);
+CREATE INDEX IF NOT EXISTS idx_user_recovery_codes_user_id
+  ON user_recovery_codes(user_id) WHERE used_at IS NULL;
@@ -0,0 +1,228 @@
+/*
+  # Pin visibility and secret boards
+
+  1. Changes
+    - `pins`
+      - `visibility` (text) - `public` (everyone), `followers` (people who follow the
+        owner) or `private` (only the owner). Defaults to `public`.
+    - `boards`
+      - `is_secret` (boolean) - secret boards are only listed and viewable by their owner
+
+  2. Security
+    - Only public pins are viewable through the public policy; the API decides who sees
+      followers-only and private pins
+
+  3. Functions
+    - `related_pins`, `search_pins`, `search_categories` and `search_suggestions` only
+      consider public pins, so non-public pins never surface in discovery
+*/
+
+ALTER TABLE pins
+  ADD COLUMN IF NOT EXISTS visibility text NOT NULL DEFAULT 'public'
+    CHECK (visibility IN ('public', 'followers', 'private'));
+
+ALTER TABLE boards
+  ADD COLUMN IF NOT EXISTS is_secret boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_pins_user_visibility ON pins(user_id, visibility);
+
+DROP POLICY IF EXISTS "Pins are viewable by everyone" ON pins;
+
+CREATE POLICY "Public pins are viewable by everyone"
+  ON pins
+  FOR SELECT
+  USING (deleted_at IS NULL AND visibility = 'public');
+
+CREATE OR REPLACE FUNCTION related_pins(
+  target_pin_id uuid,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (pin_id uuid, score double precision)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH target AS (
+    SELECT
+      id,
+      category,
+      to_tsvector('english', coalesce(title, '') || ' ' || coalesce(description, '')) AS document
+    FROM pins
+    WHERE id = target_pin_id
+  ),
+  target_query AS (
+    -- OR together every lexeme of the target pin
+    SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery AS query
+    FROM target, unnest(tsvector_to_array(target.document)) AS lexeme
+  ),
+  co_saves AS (
+    SELECT other.pin_id, count(*) AS savers
+    FROM pin_saves mine
+    JOIN pin_saves other
+      ON other.user_id = mine.user_id
+     AND other.pin_id <> mine.pin_id
+    WHERE mine.pin_id = target_pin_id
+    GROUP BY other.pin_id
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      p.created_at,
+      (CASE WHEN p.category = target.category THEN 1.0 ELSE 0.0 END)
+        + coalesce(
+            2 * ts_rank(
+              to_tsvector('english', coalesce(p.title, '') || ' ' || coalesce(p.description, '')),
+              target_query.query
+            ),
+            0
+          )
+        + ln(1 + coalesce(co_saves.savers, 0)) AS score
+    FROM pins p
+    CROSS JOIN target
+    CROSS JOIN target_query
+    LEFT JOIN co_saves ON co_saves.pin_id = p.id
+    WHERE p.id <> target_pin_id
+      AND p.deleted_at IS NULL
+      AND p.visibility = 'public'
+  )
+  SELECT scored.id, scored.score
+  FROM scored
+  WHERE scored.score > 0
+  ORDER BY scored.score DESC, scored.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+CREATE OR REPLACE FUNCTION search_pins(
+  search_query text,
+  category_filter text DEFAULT NULL,
+  created_after timestamptz DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (pin_id uuid, rank real)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.id, ts_rank_cd(pin_search_document(p.title, p.description, p.category), query) AS rank
+  FROM pins p, websearch_to_tsquery('english', search_query) AS query
+  WHERE pin_search_document(p.title, p.description, p.category) @@ query
+    AND p.deleted_at IS NULL
+    AND p.visibility = 'public'
+    AND (category_filter IS NULL OR p.category = category_filter)
+    AND (created_after IS NULL OR p.created_at >= created_after)
+  ORDER BY rank DESC, p.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+CREATE OR REPLACE FUNCTION search_categories(search_query text)
+RETURNS TABLE (category text, pins_count bigint, matching_count bigint, cover_image_url text)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS value
+  ),
+  counted AS (
+    SELECT
+      p.category,
+      count(*) AS pins_count,
+      count(*) FILTER (
+        WHERE pin_search_document(p.title, p.description, p.category) @@ query.value
+      ) AS matching_count,
+      (array_agg(p.image_url ORDER BY p.created_at DESC))[1] AS cover_image_url
+    FROM pins p, query
+    WHERE p.deleted_at IS NULL
+      AND p.visibility = 'public'
+    GROUP BY p.category
+  )
+  SELECT counted.category, counted.pins_count, counted.matching_count, counted.cover_image_url
+  FROM counted
+  WHERE trim(search_query) <> ''
+    AND (
+      counted.category ILIKE '%' || escape_like(trim(search_query)) || '%'
+      OR counted.matching_count > 0
+    )
+  ORDER BY
+    (counted.category ILIKE escape_like(trim(search_query)) || '%') DESC,
+    counted.matching_count DESC,
+    counted.category;
+$$;
+
+CREATE OR REPLACE FUNCTION search_suggestions(
+  search_query text,
+  result_limit integer DEFAULT 5
+)
+RETURNS TABLE (kind text, target_id uuid, label text, sublabel text, image_url text)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH words AS (
+    -- Only letters and digits survive, so the prefix query below is always well formed
+    SELECT word
+    FROM regexp_split_to_table(
+      lower(regexp_replace(search_query, '[^[:alnum:][:space:]]', ' ', 'g')),
+      '\s+'
+    ) AS word
+    WHERE word <> ''
+  ),
+  term AS (
+    SELECT
+      string_agg(word, ' ') AS value,
+      to_tsquery('simple', string_agg(word || ':*', ' & ')) AS prefix_query
+    FROM words
+  ),
+  pin_matches AS (
+    SELECT
+      'pin'::text AS kind,
+      p.id AS target_id,
+      p.title AS label,
+      NULL::text AS sublabel,
+      p.image_url,
+      ts_rank(to_tsvector('simple', coalesce(p.title, '')), term.prefix_query) AS rank
+    FROM pins p, term
+    WHERE term.value IS NOT NULL
+      AND p.deleted_at IS NULL
+      AND p.visibility = 'public'
+      AND to_tsvector('simple', coalesce(p.title, '')) @@ term.prefix_query
+    ORDER BY rank DESC, p.created_at DESC
+    LIMIT result_limit
+  ),
+  category_matches AS (
+    SELECT DISTINCT
+      'category'::text AS kind,
+      NULL::uuid AS target_id,
+      p.category AS label,
+      NULL::text AS sublabel,
+      NULL::text AS image_url
+    FROM pins p, term
+    WHERE term.value IS NOT NULL
+      AND p.deleted_at IS NULL
+      AND p.visibility = 'public'
+      AND lower(p.category) LIKE escape_like(term.value) || '%'
+    LIMIT 3
+  ),
+  user_matches AS (
+    SELECT
+      'user'::text AS kind,
+      u.id AS target_id,
+      u.first_name || ' ' || u.last_name AS label,
+      u.username AS sublabel,
+      u.avatar_url AS image_url
+    FROM users u, term
+    WHERE term.value IS NOT NULL
+      AND (
+        lower(u.username) LIKE escape_like(term.value) || '%'
+        OR lower(u.first_name || ' ' || u.last_name) LIKE escape_like(term.value) || '%'
+        OR lower(u.last_name) LIKE escape_like(term.value) || '%'
+      )
+    ORDER BY lower(u.username) = term.value DESC, u.username
+    LIMIT 3
+  )
+  SELECT kind, target_id, label, sublabel, image_url FROM pin_matches
+  UNION ALL
+  SELECT kind, target_id, label, sublabel, image_url FROM category_matches
+  UNION ALL
+  SELECT kind, target_id, label, sublabel, image_url FROM user_matches;
+$$;
@@ -0,0 +1,91 @@
+/*
+  # Reports and moderation
+
+  1. Changes
+    - `users`
+      - `role` (text) - `user` or `admin`; admins can open the moderation area
+      - `suspended_at` (timestamp, nullable) - suspended users can't sign in
+      - `suspension_reason` (text, nullable) - shown to the user when sign-in is refused
+    - `pins`
+      - `hidden_at` (timestamp, nullable) - set when a moderator hides the pin. A hidden pin
+        is made private and its owner can't change its visibility until it is restored.
+
+  2. New Tables
+    - `reports`
+      - `id` (uuid, primary key)
+      - `reporter_id` (uuid, foreign key)
+      - `pin_id` (uuid, nullable) - the reported pin, or
+      - `reported_user_id` (uuid, nullable) - the reported user; exactly one is set
+      - `reason` (text) - spam, harassment, nudity, violence, hate or other
+      - `details` (text) - optional note from the reporter
+      - `status` (text) - open, resolved or dismissed
+      - `resolved_by` (uuid, nullable) - the moderator who closed the report
+      - `resolved_at` (timestamp, nullable)
+      - `created_at` (timestamp)
+    - `moderation_actions` - audit log of everything a moderator did
+      - `id` (uuid, primary key)
+      - `moderator_id` (uuid, foreign key)
+      - `action` (text) - hide_pin, unhide_pin, suspend_user, unsuspend_user,
+        resolve_report or dismiss_report
+      - `pin_id`, `target_user_id`, `report_id` (uuid, nullable) - what the action touched
+      - `details` (jsonb) - action specific, e.g. the suspension reason or the visibility a
+        hidden pin had
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on the new tables
+    - Only the API (service role) reads and writes them
+
+  4. Notes
+    - A reporter can only have one open report per pin or user
+    - Audit entries outlive the pins, users and reports they mention
+*/
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin')),
+  ADD COLUMN IF NOT EXISTS suspended_at timestamptz,
+  ADD COLUMN IF NOT EXISTS suspension_reason text;
+
+ALTER TABLE pins
+  ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+
+-- Create reports table
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pin_id uuid REFERENCES pins(id) ON DELETE CASCADE,
+  reported_user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'nudity', 'violence', 'hate', 'other')),
+  details text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((pin_id IS NULL) <> (reported_user_id IS NULL))
+);
+
+-- Create moderation actions table
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  moderator_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN (
+    'hide_pin', 'unhide_pin', 'suspend_user', 'unsuspend_user', 'resolve_report', 'dismiss_report'
+  )),
+  pin_id uuid REFERENCES pins(id) ON DELETE SET NULL,
+  target_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  report_id uuid REFERENCES reports(id) ON DELETE SET NULL,
+  details jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security. There are no policies: only the service role, which
+-- bypasses RLS, can read or write these rows.
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_open_pin
+  ON reports(reporter_id, pin_id) WHERE status = 'open' AND pin_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_open_user
+  ON reports(reporter_id, reported_user_id) WHERE status = 'open' AND reported_user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reports_status_created_at ON reports(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_created_at ON moderation_actions(created_at DESC);
@@ -0,0 +1,142 @@
+/*
+  # Blocking and muting
+
+  1. New Tables
+    - `user_blocks`
+      - `id` (uuid, primary key)
+      - `blocker_id` (uuid, foreign key) - the user who blocked
+      - `blocked_id` (uuid, foreign key) - the user they blocked
+      - `created_at` (timestamp)
+      - unique on (`blocker_id`, `blocked_id`)
+    - `user_mutes`
+      - `id` (uuid, primary key)
+      - `muter_id` (uuid, foreign key) - the user who muted
+      - `muted_id` (uuid, foreign key) - the user whose pins they no longer want in their feeds
+      - `created_at` (timestamp)
+      - unique on (`muter_id`, `muted_id`)
+
+  2. Security
+    - Enable RLS on both tables
+    - Only the API (service role) reads and writes them; a blocked user is never told
+      who blocked them
+
+  3. Notes
+    - A block works both ways: neither user sees the other's pins, follows the other or
+      messages the other. Existing follows between them are removed by the API.
+    - A mute only affects the muter's home feed, following feed and search results
+
+  4. Functions
+    - `search_suggestions` takes the authors whose pins and the users who should be left
+      out of the typeahead, so the API can drop blocked and muted people before the limit
+*/
+
+-- Create user blocks table
+CREATE TABLE IF NOT EXISTS user_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  blocker_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  blocked_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(blocker_id, blocked_id),
+  CHECK (blocker_id != blocked_id)
+);
+
+-- Create user mutes table
+CREATE TABLE IF NOT EXISTS user_mutes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  muter_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  muted_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(muter_id, muted_id),
+  CHECK (muter_id != muted_id)
+);
+
+-- Enable Row Level Security. There are no policies: only the service role, which
+-- bypasses RLS, can read or write these rows.
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked_id ON user_blocks(blocked_id);
+CREATE INDEX IF NOT EXISTS idx_user_mutes_muter_id ON user_mutes(muter_id);
+
+DROP FUNCTION IF EXISTS search_suggestions(text, integer);
+
+CREATE OR REPLACE FUNCTION search_suggestions(
+  search_query text,
+  result_limit integer DEFAULT 5,
+  hidden_author_ids uuid[] DEFAULT '{}',
+  hidden_user_ids uuid[] DEFAULT '{}'
+)
+RETURNS TABLE (kind text, target_id uuid, label text, sublabel text, image_url text)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH words AS (
+    -- Only letters and digits survive, so the prefix query below is always well formed
+    SELECT word
+    FROM regexp_split_to_table(
+      lower(regexp_replace(search_query, '[^[:alnum:][:space:]]', ' ', 'g')),
+      '\s+'
+    ) AS word
+    WHERE word <> ''
+  ),
+  term AS (
+    SELECT
+      string_agg(word, ' ') AS value,
+      to_tsquery('simple', string_agg(word || ':*', ' & ')) AS prefix_query
+    FROM words
+  ),
+  pin_matches AS (
+    SELECT
+      'pin'::text AS kind,
+      p.id AS target_id,
+      p.title AS label,
+      NULL::text AS sublabel,
+      p.image_url,
+      ts_rank(to_tsvector('simple', coalesce(p.title, '')), term.prefix_query) AS rank
+    FROM pins p, term
+    WHERE term.value IS NOT NULL
+      AND p.deleted_at IS NULL
+      AND p.visibility = 'public'
+      AND p.user_id <> ALL(hidden_author_ids)
+      AND to_tsvector('simple', coalesce(p.title, '')) @@ term.prefix_query
+    ORDER BY rank DESC, p.created_at DESC
+    LIMIT result_limit
+  ),
+  category_matches AS (
+    SELECT DISTINCT
+      'category'::text AS kind,
+      NULL::uuid AS target_id,
+      p.category AS label,
+      NULL::text AS sublabel,
+      NULL::text AS image_url
+    FROM pins p, term
+    WHERE term.value IS NOT NULL
+      AND p.deleted_at IS NULL
+      AND p.visibility = 'public'
+      AND lower(p.category) LIKE escape_like(term.value) || '%'
+    LIMIT 3
+  ),
+  user_matches AS (
+    SELECT
+      'user'::text AS kind,
+      u.id AS target_id,
+      u.first_name || ' ' || u.last_name AS label,
+      u.username AS sublabel,
+      u.avatar_url AS image_url
+    FROM users u, term
+    WHERE term.value IS NOT NULL
+      AND u.id <> ALL(hidden_user_ids)
+      AND (
+        lower(u.username) LIKE escape_like(term.value) || '%'
+        OR lower(u.first_name || ' ' || u.last_name) LIKE escape_like(term.value) || '%'
+        OR lower(u.last_name) LIKE escape_like(term.value) || '%'
+      )
+    ORDER BY lower(u.username) = term.value DESC, u.username
+    LIMIT 3
+  )
+  SELECT kind, target_id, label, sublabel, image_url FROM pin_matches
+  UNION ALL
+  SELECT kind, target_id, label, sublabel, image_url FROM category_matches
+  UNION ALL
+  SELECT kind, target_id, label, sublabel, image_url FROM user_matches;
+$$;